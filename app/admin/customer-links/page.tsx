@@ -0,0 +1,14 @@
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+import CustomerLinksAdmin from "@/components/admin/customer-links-admin";
+import { getSessionUser } from "@/lib/session";
+
+export default async function CustomerLinksPage() {
+    const sessionUser = await getSessionUser(await headers());
+
+    if (!sessionUser) redirect("/sign-in");
+    if (sessionUser.role !== "admin") redirect("/");
+
+    return <CustomerLinksAdmin />;
+}
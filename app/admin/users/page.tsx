@@ -0,0 +1,14 @@
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+import UsersAdmin from "@/components/admin/users-admin";
+import { getSessionUser } from "@/lib/session";
+
+export default async function UsersPage() {
+    const sessionUser = await getSessionUser(await headers());
+
+    if (!sessionUser) redirect("/sign-in");
+    if (sessionUser.role !== "admin") redirect("/");
+
+    return <UsersAdmin currentUserId={sessionUser.id} />;
+}
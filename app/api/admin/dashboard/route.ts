@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getAdminDashboard } from "@/lib/dashboard";
+import { getSessionUser } from "@/lib/session";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const querySchema = z.object({
+    fromDate: isoDate.optional(),
+    toDate: isoDate.optional(),
+    regionZone: z.string().min(1).optional(),
+});
+
+export async function GET(req: Request) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser || sessionUser.role !== "admin") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parseResult = querySchema.safeParse({
+        fromDate: searchParams.get("fromDate") || undefined,
+        toDate: searchParams.get("toDate") || undefined,
+        regionZone: searchParams.get("regionZone") || undefined,
+    });
+
+    if (!parseResult.success) {
+        return NextResponse.json(
+            {
+                error: "Invalid request",
+                details: parseResult.error.flatten(),
+            },
+            { status: 400 },
+        );
+    }
+
+    const dashboard = await getAdminDashboard(parseResult.data);
+
+    return NextResponse.json(dashboard);
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+    ANOMALY_SEVERITIES,
+    ANOMALY_TYPES,
+    scanInvoiceAnomalies,
+} from "@/lib/invoiceAnomalies";
+import { getSessionUser } from "@/lib/session";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const querySchema = z.object({
+    fromDate: isoDate.optional(),
+    toDate: isoDate.optional(),
+    type: z.enum(ANOMALY_TYPES).optional(),
+    minSeverity: z.enum(ANOMALY_SEVERITIES).optional(),
+});
+
+export async function GET(req: Request) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser || sessionUser.role !== "admin") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parseResult = querySchema.safeParse({
+        fromDate: searchParams.get("fromDate") || undefined,
+        toDate: searchParams.get("toDate") || undefined,
+        type: searchParams.get("type") || undefined,
+        minSeverity: searchParams.get("minSeverity") || undefined,
+    });
+
+    if (!parseResult.success) {
+        return NextResponse.json(
+            {
+                error: "Invalid request",
+                details: parseResult.error.flatten(),
+            },
+            { status: 400 },
+        );
+    }
+
+    const { type, ...filters } = parseResult.data;
+    const report = await scanInvoiceAnomalies({
+        ...filters,
+        types: type ? [type] : undefined,
+        limit: 500,
+    });
+
+    return NextResponse.json(report);
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { updateUser } from "@/lib/adminUsers";
+import { USER_ROLES } from "@/lib/roles";
+import { getSessionUser } from "@/lib/session";
+
+const updateUserSchema = z.object({
+    role: z.enum(USER_ROLES).optional(),
+    agentCode: z.string().nullable().optional(),
+    brokerCode: z.string().nullable().optional(),
+});
+
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser || sessionUser.role !== "admin") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json(
+            { error: "Invalid JSON in request body" },
+            { status: 400 },
+        );
+    }
+
+    const parseResult = updateUserSchema.safeParse(body);
+    if (!parseResult.success) {
+        return NextResponse.json(
+            {
+                error: "Invalid request",
+                details: parseResult.error.flatten(),
+            },
+            { status: 400 },
+        );
+    }
+
+    // Prevent an admin from locking themselves out of the admin tools
+    if (
+        id === sessionUser.id &&
+        parseResult.data.role !== undefined &&
+        parseResult.data.role !== "admin"
+    ) {
+        return NextResponse.json(
+            { error: "You cannot remove your own admin role" },
+            { status: 400 },
+        );
+    }
+
+    const result = await updateUser({ userId: id, ...parseResult.data });
+
+    if (!result) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ user: result.data });
+}
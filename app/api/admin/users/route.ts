@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { listUsers } from "@/lib/adminUsers";
+import { getSessionUser } from "@/lib/session";
+
+export async function GET(req: Request) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser || sessionUser.role !== "admin") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const users = await listUsers();
+
+    return NextResponse.json({ users });
+}
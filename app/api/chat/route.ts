@@ -1,15 +1,25 @@
 import { NextResponse } from "next/server";
-import { convertToModelMessages, stepCountIs, streamText, UIMessage } from "ai";
+import {
+    convertToModelMessages,
+    generateId,
+    stepCountIs,
+    streamText,
+    UIMessage,
+} from "ai";
 import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
 
-import { chatTools, SYSTEM_PROMPT } from "@/lib/chat";
+import { getChatToolsForRole, getSystemPrompt } from "@/lib/chat";
+import { canUseConversation, saveConversation } from "@/lib/conversations";
+import { getSessionUser } from "@/lib/session";
 
 // ========================
 // Request Validation
 // ========================
 
 const chatRequestSchema = z.object({
+    // Conversation ID sent by useChat; the conversation is saved under it
+    id: z.string().min(1),
     messages: z.array(z.any()).min(1, "Messages array cannot be empty"),
 });
 
@@ -28,6 +38,14 @@ const CONFIG = {
 
 export async function POST(req: Request) {
     try {
+        const sessionUser = await getSessionUser(req.headers);
+        if (!sessionUser) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 },
+            );
+        }
+
         const body = await req.json();
 
         // Validate request body
@@ -42,18 +60,45 @@ export async function POST(req: Request) {
             );
         }
 
+        const { id: conversationId } = parseResult.data;
         const { messages }: { messages: UIMessage[] } = parseResult.data;
 
+        const canUse = await canUseConversation({
+            userId: sessionUser.id,
+            conversationId,
+        });
+        if (!canUse) {
+            return NextResponse.json(
+                { error: "Conversation not found" },
+                { status: 404 },
+            );
+        }
+
         const result = await streamText({
             model: openai(CONFIG.model),
-            system: SYSTEM_PROMPT,
+            system: getSystemPrompt(sessionUser.role),
             messages: convertToModelMessages(messages),
             stopWhen: stepCountIs(CONFIG.maxSteps),
-            tools: chatTools,
+            tools: getChatToolsForRole(sessionUser.role),
         });
 
+        // Keep generating (and saving) even if the client disconnects mid-stream
+        result.consumeStream();
+
         return result.toUIMessageStreamResponse({
             originalMessages: messages,
+            generateMessageId: generateId,
+            onFinish: async ({ messages: finalMessages }) => {
+                try {
+                    await saveConversation({
+                        userId: sessionUser.id,
+                        conversationId,
+                        messages: finalMessages,
+                    });
+                } catch (error) {
+                    console.error("[Chat API Error]: failed to save", error);
+                }
+            },
             messageMetadata: ({ part }) => {
                 if (part.type !== "finish") return undefined;
 
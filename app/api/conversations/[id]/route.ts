@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+    deleteConversation,
+    getConversation,
+    renameConversation,
+} from "@/lib/conversations";
+import { getSessionUser } from "@/lib/session";
+
+const renameConversationSchema = z.object({
+    title: z.string().trim().min(1, "Title cannot be empty"),
+});
+
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await getConversation({
+        userId: sessionUser.id,
+        conversationId: (await params).id,
+    });
+
+    if (!result) {
+        return NextResponse.json(
+            { error: "Conversation not found" },
+            { status: 404 },
+        );
+    }
+
+    return NextResponse.json(result);
+}
+
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json(
+            { error: "Invalid JSON in request body" },
+            { status: 400 },
+        );
+    }
+
+    const parseResult = renameConversationSchema.safeParse(body);
+    if (!parseResult.success) {
+        return NextResponse.json(
+            {
+                error: "Invalid request",
+                details: parseResult.error.flatten(),
+            },
+            { status: 400 },
+        );
+    }
+
+    const updated = await renameConversation({
+        userId: sessionUser.id,
+        conversationId: (await params).id,
+        title: parseResult.data.title,
+    });
+
+    if (!updated) {
+        return NextResponse.json(
+            { error: "Conversation not found" },
+            { status: 404 },
+        );
+    }
+
+    return NextResponse.json({ conversation: updated });
+}
+
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const deleted = await deleteConversation({
+        userId: sessionUser.id,
+        conversationId: (await params).id,
+    });
+
+    if (!deleted) {
+        return NextResponse.json(
+            { error: "Conversation not found" },
+            { status: 404 },
+        );
+    }
+
+    return NextResponse.json({ success: true });
+}
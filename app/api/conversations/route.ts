@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { listConversations } from "@/lib/conversations";
+import { getSessionUser } from "@/lib/session";
+
+export async function GET(req: Request) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversations = await listConversations(sessionUser.id);
+
+    return NextResponse.json({ conversations });
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { deleteCustomerLink, reviewCustomerLink } from "@/lib/customerLinks";
+import { getSessionUser } from "@/lib/session";
+
+const reviewLinkSchema = z.object({
+    status: z.enum(["approved", "rejected"]),
+});
+
+function parseLinkId(id: string) {
+    const linkId = Number(id);
+    return Number.isInteger(linkId) && linkId > 0 ? linkId : null;
+}
+
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser || sessionUser.role !== "admin") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const linkId = parseLinkId((await params).id);
+    if (linkId === null) {
+        return NextResponse.json({ error: "Invalid link ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json(
+            { error: "Invalid JSON in request body" },
+            { status: 400 },
+        );
+    }
+
+    const parseResult = reviewLinkSchema.safeParse(body);
+    if (!parseResult.success) {
+        return NextResponse.json(
+            {
+                error: "Invalid request",
+                details: parseResult.error.flatten(),
+            },
+            { status: 400 },
+        );
+    }
+
+    const link = await reviewCustomerLink({
+        id: linkId,
+        status: parseResult.data.status,
+        reviewerId: sessionUser.id,
+    });
+
+    if (!link) {
+        return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ link });
+}
+
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser || sessionUser.role !== "admin") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const linkId = parseLinkId((await params).id);
+    if (linkId === null) {
+        return NextResponse.json({ error: "Invalid link ID" }, { status: 400 });
+    }
+
+    const deleted = await deleteCustomerLink(linkId);
+    if (!deleted) {
+        return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+}
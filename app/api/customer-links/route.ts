@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { CUSTOMER_LINK_STATUSES } from "@/drizzle/schema/customer-link-schema";
+import {
+    createApprovedCustomerLink,
+    listCustomerLinks,
+    listUserCustomerLinks,
+    requestCustomerLink,
+} from "@/lib/customerLinks";
+import { getSessionUser } from "@/lib/session";
+
+const createLinkSchema = z.object({
+    billToPartyCode: z.string().trim().min(1),
+    // Admin only: link another user directly (approved immediately)
+    userId: z.string().min(1).optional(),
+});
+
+const statusFilterSchema = z.enum(CUSTOMER_LINK_STATUSES).optional();
+
+export async function GET(req: Request) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (sessionUser.role !== "admin") {
+        const links = await listUserCustomerLinks(sessionUser.id);
+        return NextResponse.json({ links });
+    }
+
+    const statusParam = new URL(req.url).searchParams.get("status") ??
+        undefined;
+    const status = statusFilterSchema.safeParse(statusParam);
+    if (!status.success) {
+        return NextResponse.json(
+            { error: "Invalid status filter" },
+            { status: 400 },
+        );
+    }
+
+    const links = await listCustomerLinks({ status: status.data });
+
+    return NextResponse.json({ links });
+}
+
+export async function POST(req: Request) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (!sessionUser) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json(
+            { error: "Invalid JSON in request body" },
+            { status: 400 },
+        );
+    }
+
+    const parseResult = createLinkSchema.safeParse(body);
+    if (!parseResult.success) {
+        return NextResponse.json(
+            {
+                error: "Invalid request",
+                details: parseResult.error.flatten(),
+            },
+            { status: 400 },
+        );
+    }
+
+    const { billToPartyCode, userId } = parseResult.data;
+
+    if (userId && sessionUser.role !== "admin") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const result = userId
+        ? await createApprovedCustomerLink({
+            userId,
+            billToPartyCode,
+            reviewerId: sessionUser.id,
+        })
+        : await requestCustomerLink({
+            userId: sessionUser.id,
+            billToPartyCode,
+        });
+
+    if (!result) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ link: result.data }, { status: 201 });
+}
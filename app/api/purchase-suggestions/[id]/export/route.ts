@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import {
+    buildPurchaseDraftWorkbook,
+    loadPurchaseDraft,
+} from "@/lib/purchaseSuggestions";
+import { getSessionUser } from "@/lib/session";
+
+function parseDraftId(id: string) {
+    const draftId = Number(id);
+    return Number.isInteger(draftId) && draftId > 0 ? draftId : null;
+}
+
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (
+        !sessionUser ||
+        (sessionUser.role !== "admin" && sessionUser.role !== "sales")
+    ) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const draftId = parseDraftId((await params).id);
+    if (draftId === null) {
+        return NextResponse.json({ error: "Invalid draft ID" }, { status: 400 });
+    }
+
+    const draft = await loadPurchaseDraft(draftId);
+    if (!draft) {
+        return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    const workbook = buildPurchaseDraftWorkbook(draft);
+
+    return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+            "Content-Type":
+                "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            "Content-Disposition":
+                `attachment; filename="purchase-suggestions-${draftId}.xlsx"`,
+        },
+    });
+}
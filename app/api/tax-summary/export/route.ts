@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUser } from "@/lib/session";
+import {
+    buildTaxSummaryWorkbook,
+    loadTaxSummary,
+    resolveTaxRange,
+} from "@/lib/taxReporting";
+
+export async function GET(req: Request) {
+    const sessionUser = await getSessionUser(req.headers);
+    if (
+        !sessionUser ||
+        (sessionUser.role !== "admin" && sessionUser.role !== "sales")
+    ) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const range = resolveTaxRange({
+        fromDate: searchParams.get("fromDate"),
+        toDate: searchParams.get("toDate"),
+    });
+
+    const workbook = buildTaxSummaryWorkbook(await loadTaxSummary(range));
+
+    return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+            "Content-Type":
+                "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            "Content-Disposition":
+                `attachment; filename="tax-summary-${range.fromDate}-to-${range.toDate}.xlsx"`,
+        },
+    });
+}
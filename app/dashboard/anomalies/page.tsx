@@ -0,0 +1,14 @@
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+import InvoiceAnomalies from "@/components/dashboard/invoice-anomalies";
+import { getSessionUser } from "@/lib/session";
+
+export default async function InvoiceAnomaliesPage() {
+    const sessionUser = await getSessionUser(await headers());
+
+    if (!sessionUser) redirect("/sign-in");
+    if (sessionUser.role !== "admin") redirect("/");
+
+    return <InvoiceAnomalies />;
+}
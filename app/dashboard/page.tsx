@@ -1,7 +1,36 @@
-export default function DashboardPage() {
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+import AdminDashboard from "@/components/dashboard/admin-dashboard";
+import CustomerDashboard, {
+    CustomerDashboardUnavailable,
+} from "@/components/dashboard/customer-dashboard";
+import { getCustomerDashboard } from "@/lib/dashboard";
+import { listAdminDistinctValues } from "@/lib/invoiceTools";
+import { getSessionUser } from "@/lib/session";
+
+export default async function DashboardPage() {
+    const sessionUser = await getSessionUser(await headers());
+
+    if (!sessionUser) redirect("/sign-in");
+
+    if (sessionUser.role === "customer") {
+        const result = await getCustomerDashboard();
+        return result.success
+            ? <CustomerDashboard data={result.data} />
+            : <CustomerDashboardUnavailable error={result.error} />;
+    }
+
+    if (sessionUser.role !== "admin") redirect("/");
+
+    const { regions } = await listAdminDistinctValues();
+
     return (
-        <div>
-            <h1>Dashboard</h1>
-        </div>
+        <AdminDashboard
+            regions={regions
+                .map((row) => row.regionZone)
+                .filter((region): region is string => !!region)
+                .sort()}
+        />
     );
 }
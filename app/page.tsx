@@ -1,14 +1,26 @@
 "use client";
 
 import { useChat } from "@ai-sdk/react";
-import type { UIMessage } from "ai";
+import { generateId, isToolOrDynamicToolUIPart, type UIMessage } from "ai";
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import ReactMarkdown, { Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeHighlight from "rehype-highlight";
 import { Button } from "@/components/ui/button";
+import {
+  ConversationSidebar,
+  type ConversationSummary,
+} from "@/components/chat/conversation-sidebar";
+import { ToolResult } from "@/components/chat/tool-result";
+import {
+  type ExportFormat,
+  exportToolResults,
+  getToolCalls,
+} from "@/lib/chat/exportToolResults";
 import { authClient } from "@/lib/auth-client";
+import { type UserRole, toUserRole } from "@/lib/roles";
 
 // ========================
 // Configuration
@@ -395,6 +407,13 @@ function MessageBubble({
   message: ChatMessage;
   isUser: boolean;
 }) {
+  const toolCalls = useMemo(() => getToolCalls(message), [message]);
+
+  const handleExport = (format: ExportFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    exportToolResults(toolCalls, format, `chat-data-${date}-${message.id}`);
+  };
+
   return (
     <div
       className={`message-animate flex gap-3 ${
@@ -430,6 +449,10 @@ function MessageBubble({
           }`}
         >
           {message.parts.map((part, i) => {
+            if (isToolOrDynamicToolUIPart(part)) {
+              return <ToolResult key={`${message.id}-${i}`} part={part} />;
+            }
+
             switch (part.type) {
               case "text":
                 return (
@@ -447,14 +470,31 @@ function MessageBubble({
           })}
         </div>
 
-        {/* Token info for AI messages */}
-        {!isUser &&
-          message.metadata &&
-          message.metadata.totalTokens !== null && (
-            <div className="text-[10px] text-muted-foreground px-1">
-              {message.metadata.totalTokens} tokens
-            </div>
-          )}
+        {/* Token info and data export for AI messages */}
+        {!isUser && (
+          <div className="flex items-center gap-3 px-1">
+            {message.metadata && message.metadata.totalTokens !== null && (
+              <div className="text-[10px] text-muted-foreground">
+                {message.metadata.totalTokens} tokens
+              </div>
+            )}
+            {toolCalls.length > 0 && (
+              <div className="flex items-center gap-1">
+                {(["xlsx", "csv"] as const).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="inline-flex items-center gap-1 rounded-md px-1.5 py-0.5 text-[10px] font-medium text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors"
+                    title={`Download the data behind this answer as ${format.toUpperCase()}`}
+                  >
+                    <DownloadIcon className="size-3" />
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -521,7 +561,40 @@ function ErrorBanner({
   );
 }
 
-function EmptyState() {
+const SUGGESTIONS: Record<UserRole, string[]> = {
+  admin: [
+    "Show my recent invoices",
+    "Top customers by revenue",
+    "Stock replenishment report",
+    "Sales by region this quarter",
+  ],
+  sales: [
+    "Top customers by revenue",
+    "Agent performance this year",
+    "Stock replenishment report",
+    "Sales by region this quarter",
+  ],
+  agent: [
+    "My top customers this year",
+    "Which of my customers went inactive?",
+    "My revenue by region",
+    "My commission by month",
+  ],
+  broker: [
+    "Summarize my business this year",
+    "Which customers came through me?",
+    "Show my latest invoices",
+    "My commission this quarter",
+  ],
+  customer: [
+    "Show my recent invoices",
+    "My purchases by material",
+    "My monthly purchase trend",
+    "Summarize my invoices this year",
+  ],
+};
+
+function EmptyState({ role }: { role: UserRole }) {
   return (
     <div className="flex-1 flex flex-col items-center justify-center text-center px-4 py-12">
       <div className="size-16 rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center mb-6 shadow-lg shadow-violet-500/25">
@@ -535,12 +608,7 @@ function EmptyState() {
         inventory data.
       </p>
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full max-w-md">
-        {[
-          "Show my recent invoices",
-          "Top customers by revenue",
-          "Stock replenishment report",
-          "Sales by region this quarter",
-        ].map((suggestion) => (
+        {SUGGESTIONS[role].map((suggestion) => (
           <button
             key={suggestion}
             className="text-left px-4 py-3 rounded-xl border border-border bg-card/50 hover:bg-card hover:border-primary/30 transition-all text-sm text-muted-foreground hover:text-foreground"
@@ -560,28 +628,62 @@ function EmptyState() {
 export default function Chat() {
   const [input, setInput] = useState("");
   const [consecutiveErrors, setConsecutiveErrors] = useState(0);
+  // useChat keeps the callbacks it was created with, so onError reads the
+  // latest count from this ref instead of the state above
+  const consecutiveErrorsRef = useRef(0);
   const [showResetNotice, setShowResetNotice] = useState(false);
   const [lastUserMessage, setLastUserMessage] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [activeChat, setActiveChat] = useState<{
+    id: string;
+    messages: ChatMessage[];
+  }>(() => ({ id: generateId(), messages: [] }));
+  const [conversations, setConversations] = useState<ConversationSummary[]>(
+    []
+  );
+
+  const loadConversations = useCallback(
+    () =>
+      fetch("/api/conversations")
+        .then((res) => res.json())
+        .then((data) => setConversations(data.conversations ?? []))
+        .catch((err) => console.error("[Conversations Error]:", err)),
+    []
+  );
 
-  const { messages, sendMessage, error, status, setMessages } =
+  const handleNewChat = useCallback(() => {
+    setActiveChat({ id: generateId(), messages: [] });
+    setConsecutiveErrors(0);
+    setShowResetNotice(false);
+    setLastUserMessage(null);
+  }, []);
+
+  useEffect(() => {
+    consecutiveErrorsRef.current = consecutiveErrors;
+  }, [consecutiveErrors]);
+
+  // Changing the id makes useChat start a fresh chat seeded with `messages`
+  const { messages, sendMessage, error, status } =
     useChat<ChatMessage>({
+      id: activeChat.id,
+      messages: activeChat.messages,
       onError: (err) => {
         console.error("[Chat Error]:", err);
-        setConsecutiveErrors((prev) => {
-          const newCount = prev + 1;
-          if (newCount > ERROR_CONFIG.maxConsecutiveErrors) {
-            setMessages([]);
-            setShowResetNotice(true);
-            return 0;
-          }
-          return newCount;
-        });
+        const newCount = consecutiveErrorsRef.current + 1;
+        if (newCount > ERROR_CONFIG.maxConsecutiveErrors) {
+          // Move to a new conversation so the saved one is left intact
+          handleNewChat();
+          setShowResetNotice(true);
+          return;
+        }
+        consecutiveErrorsRef.current = newCount;
+        setConsecutiveErrors(newCount);
       },
       onFinish: () => {
         setConsecutiveErrors(0);
         setShowResetNotice(false);
         setLastUserMessage(null);
+        loadConversations();
       },
     });
 
@@ -600,18 +702,62 @@ export default function Chat() {
     }
   }, [isPending, session, router]);
 
+  // Load conversation history once signed in
+  const userId = session?.user?.id;
+  useEffect(() => {
+    if (userId) {
+      loadConversations();
+    }
+  }, [userId, loadConversations]);
+
   const handleRetry = useCallback(() => {
     if (lastUserMessage) {
       sendMessage({ text: lastUserMessage });
     }
   }, [lastUserMessage, sendMessage]);
 
-  const handleReset = useCallback(() => {
-    setMessages([]);
-    setConsecutiveErrors(0);
-    setShowResetNotice(false);
-    setLastUserMessage(null);
-  }, [setMessages]);
+  // Past conversations stay in the sidebar, so a reset just starts a new one
+  const handleReset = handleNewChat;
+
+  const handleSelectConversation = useCallback(
+    async (id: string) => {
+      if (id === activeChat.id) return;
+      const res = await fetch(`/api/conversations/${id}`);
+      if (!res.ok) {
+        loadConversations();
+        return;
+      }
+      const data = await res.json();
+      setActiveChat({ id, messages: data.messages });
+      setConsecutiveErrors(0);
+      setShowResetNotice(false);
+      setLastUserMessage(null);
+    },
+    [activeChat.id, loadConversations]
+  );
+
+  const handleRenameConversation = useCallback(
+    async (id: string, title: string) => {
+      await fetch(`/api/conversations/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      loadConversations();
+    },
+    [loadConversations]
+  );
+
+  const handleDeleteConversation = useCallback(
+    async (id: string) => {
+      await fetch(`/api/conversations/${id}`, { method: "DELETE" });
+      if (id === activeChat.id) {
+        handleNewChat();
+      }
+      loadConversations();
+    },
+    [activeChat.id, handleNewChat, loadConversations]
+  );
 
   const handleSubmit = useCallback(
     (e: React.FormEvent) => {
@@ -648,120 +794,143 @@ export default function Chat() {
     return null;
   }
 
+  const role = toUserRole(session.user?.role);
   const isLoading = status === "streaming" || status === "submitted";
   const hasError = error && status !== "streaming";
 
   return (
-    <div className="gradient-mesh min-h-screen flex flex-col">
-      {/* Header */}
-      <header className="sticky top-0 z-10 backdrop-blur-xl bg-background/80 border-b border-border/50">
-        <div className="max-w-3xl mx-auto px-4 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="size-9 rounded-xl bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center shadow-lg shadow-violet-500/20">
-              <SparklesIcon className="size-5 text-white" />
+    <div className="gradient-mesh min-h-screen flex">
+      {/* Conversation history */}
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeChat.id}
+        onNew={handleNewChat}
+        onSelect={handleSelectConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+      />
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* Header */}
+        <header className="sticky top-0 z-10 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="max-w-3xl mx-auto px-4 h-16 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="size-9 rounded-xl bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center shadow-lg shadow-violet-500/20">
+                <SparklesIcon className="size-5 text-white" />
+              </div>
+              <div>
+                <h1 className="font-semibold text-foreground">Stock Assistant</h1>
+                <p className="text-xs text-muted-foreground">Powered by AI</p>
+              </div>
             </div>
-            <div>
-              <h1 className="font-semibold text-foreground">Stock Assistant</h1>
-              <p className="text-xs text-muted-foreground">Powered by AI</p>
+            <div className="flex items-center gap-2">
+              {(role === "admin" || role === "customer") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  asChild
+                  className="rounded-full text-muted-foreground hover:text-foreground"
+                >
+                  <Link href="/dashboard">Dashboard</Link>
+                </Button>
+              )}
+              <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full bg-secondary text-sm">
+                <div className="size-6 rounded-full bg-primary/10 flex items-center justify-center">
+                  <UserIcon className="size-3.5 text-primary" />
+                </div>
+                <span className="text-muted-foreground max-w-[120px] truncate">
+                  {session.user?.name || session.user?.email}
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleLogout}
+                className="rounded-full text-muted-foreground hover:text-foreground"
+              >
+                <LogOutIcon className="size-4" />
+              </Button>
             </div>
           </div>
-          <div className="flex items-center gap-2">
-            <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full bg-secondary text-sm">
-              <div className="size-6 rounded-full bg-primary/10 flex items-center justify-center">
-                <UserIcon className="size-3.5 text-primary" />
+        </header>
+
+        {/* Messages area */}
+        <main className="flex-1 overflow-y-auto scrollbar-thin">
+          <div className="max-w-3xl mx-auto px-4 py-6">
+            {/* Reset notice */}
+            {showResetNotice && (
+              <div className="message-animate mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                <p className="text-sm text-amber-700 dark:text-amber-400">
+                  {ERROR_CONFIG.resetMessage}
+                </p>
               </div>
-              <span className="text-muted-foreground max-w-[120px] truncate">
-                {session.user?.name || session.user?.email}
-              </span>
+            )}
+
+            {/* Empty state */}
+            {messages.length === 0 && !isLoading && <EmptyState role={role} />}
+
+            {/* Messages */}
+            <div className="space-y-6">
+              {messages.map((message) => (
+                <MessageBubble
+                  key={message.id}
+                  message={message}
+                  isUser={message.role === "user"}
+                />
+              ))}
+
+              {/* Loading indicator */}
+              {isLoading && (
+                <div className="message-animate flex gap-3">
+                  <div className="shrink-0 size-8 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center">
+                    <SparklesIcon className="size-4 text-white" />
+                  </div>
+                  <div className="bg-card border border-border rounded-2xl rounded-bl-md shadow-sm">
+                    <TypingIndicator />
+                  </div>
+                </div>
+              )}
+
+              {/* Error banner */}
+              {hasError && (
+                <ErrorBanner
+                  message={ERROR_CONFIG.fallbackMessage}
+                  onRetry={handleRetry}
+                  onReset={handleReset}
+                  showReset={consecutiveErrors >= 1}
+                />
+              )}
+
+              <div ref={messagesEndRef} />
             </div>
+          </div>
+        </main>
+
+        {/* Input area */}
+        <footer className="sticky bottom-0 backdrop-blur-xl bg-background/80 border-t border-border/50 p-4">
+          <form onSubmit={handleSubmit} className="max-w-3xl mx-auto relative">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Ask about invoices, customers, or stock..."
+              disabled={isLoading}
+              className="w-full px-5 py-4 pr-14 rounded-2xl border border-border bg-card shadow-lg shadow-black/5 focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all placeholder:text-muted-foreground"
+            />
             <Button
-              variant="ghost"
+              type="submit"
               size="icon"
-              onClick={handleLogout}
-              className="rounded-full text-muted-foreground hover:text-foreground"
+              disabled={isLoading || !input.trim()}
+              className="absolute right-2 top-1/2 -translate-y-1/2 rounded-xl size-10 bg-primary hover:bg-primary/90 disabled:opacity-50"
             >
-              <LogOutIcon className="size-4" />
+              <SendIcon className="size-4" />
             </Button>
-          </div>
-        </div>
-      </header>
-
-      {/* Messages area */}
-      <main className="flex-1 overflow-y-auto scrollbar-thin">
-        <div className="max-w-3xl mx-auto px-4 py-6">
-          {/* Reset notice */}
-          {showResetNotice && (
-            <div className="message-animate mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl">
-              <p className="text-sm text-amber-700 dark:text-amber-400">
-                {ERROR_CONFIG.resetMessage}
-              </p>
-            </div>
-          )}
-
-          {/* Empty state */}
-          {messages.length === 0 && !isLoading && <EmptyState />}
-
-          {/* Messages */}
-          <div className="space-y-6">
-            {messages.map((message) => (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                isUser={message.role === "user"}
-              />
-            ))}
-
-            {/* Loading indicator */}
-            {isLoading && (
-              <div className="message-animate flex gap-3">
-                <div className="shrink-0 size-8 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center">
-                  <SparklesIcon className="size-4 text-white" />
-                </div>
-                <div className="bg-card border border-border rounded-2xl rounded-bl-md shadow-sm">
-                  <TypingIndicator />
-                </div>
-              </div>
-            )}
-
-            {/* Error banner */}
-            {hasError && (
-              <ErrorBanner
-                message={ERROR_CONFIG.fallbackMessage}
-                onRetry={handleRetry}
-                onReset={handleReset}
-                showReset={consecutiveErrors >= 1}
-              />
-            )}
-
-            <div ref={messagesEndRef} />
-          </div>
-        </div>
-      </main>
-
-      {/* Input area */}
-      <footer className="sticky bottom-0 backdrop-blur-xl bg-background/80 border-t border-border/50 p-4">
-        <form onSubmit={handleSubmit} className="max-w-3xl mx-auto relative">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask about invoices, customers, or stock..."
-            disabled={isLoading}
-            className="w-full px-5 py-4 pr-14 rounded-2xl border border-border bg-card shadow-lg shadow-black/5 focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all placeholder:text-muted-foreground"
-          />
-          <Button
-            type="submit"
-            size="icon"
-            disabled={isLoading || !input.trim()}
-            className="absolute right-2 top-1/2 -translate-y-1/2 rounded-xl size-10 bg-primary hover:bg-primary/90 disabled:opacity-50"
-          >
-            <SendIcon className="size-4" />
-          </Button>
-        </form>
-        <p className="text-center text-xs text-muted-foreground mt-3">
-          AI can make mistakes. Verify important information.
-        </p>
-      </footer>
+          </form>
+          <p className="text-center text-xs text-muted-foreground mt-3">
+            AI can make mistakes. Verify important information.
+          </p>
+        </footer>
+      </div>
     </div>
   );
 }
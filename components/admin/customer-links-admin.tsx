@@ -0,0 +1,276 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type CustomerLink = {
+    id: number;
+    userId: string;
+    userName: string;
+    userEmail: string;
+    billToPartyCode: string;
+    billToParty: string | null;
+    status: "pending" | "approved" | "rejected";
+    requestedAt: string;
+    reviewedAt: string | null;
+};
+
+type AdminUser = {
+    id: string;
+    name: string;
+    email: string;
+};
+
+const STATUS_STYLES: Record<CustomerLink["status"], string> = {
+    pending: "bg-amber-500/10 text-amber-700",
+    approved: "bg-emerald-500/10 text-emerald-700",
+    rejected: "bg-destructive/10 text-destructive",
+};
+
+async function fetchLinks(): Promise<CustomerLink[]> {
+    const res = await fetch("/api/customer-links");
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error ?? "Failed to load customer links.");
+    }
+    return data.links;
+}
+
+export default function CustomerLinksAdmin() {
+    const [links, setLinks] = useState<CustomerLink[]>([]);
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [form, setForm] = useState({ userId: "", billToPartyCode: "" });
+
+    const loadLinks = useCallback(
+        () =>
+            fetchLinks()
+                .then(setLinks)
+                .catch((err: Error) => setError(err.message)),
+        [],
+    );
+
+    useEffect(() => {
+        loadLinks();
+        fetch("/api/admin/users")
+            .then((res) => res.json())
+            .then((data) => setUsers(data.users ?? []));
+    }, [loadLinks]);
+
+    const handleReview = useCallback(
+        async (id: number, status: "approved" | "rejected") => {
+            setError(null);
+            const res = await fetch(`/api/customer-links/${id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ status }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error ?? "Failed to update link.");
+            }
+            await loadLinks();
+        },
+        [loadLinks],
+    );
+
+    const handleDelete = useCallback(
+        async (id: number) => {
+            setError(null);
+            await fetch(`/api/customer-links/${id}`, { method: "DELETE" });
+            await loadLinks();
+        },
+        [loadLinks],
+    );
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        const res = await fetch("/api/customer-links", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(form),
+        });
+        if (!res.ok) {
+            const data = await res.json();
+            setError(data.error ?? "Failed to link customer.");
+            return;
+        }
+
+        setForm({ userId: "", billToPartyCode: "" });
+        await loadLinks();
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold">Customer Links</h1>
+                <p className="text-sm text-muted-foreground">
+                    Approve which customer accounts each user can see.
+                </p>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-xl text-sm text-destructive">
+                    {error}
+                </div>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Link a user</CardTitle>
+                    <CardDescription>
+                        Links created here are approved immediately.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form
+                        onSubmit={handleCreate}
+                        className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end"
+                    >
+                        <div className="grid gap-2">
+                            <Label htmlFor="userId">User</Label>
+                            <select
+                                id="userId"
+                                required
+                                value={form.userId}
+                                onChange={(e) =>
+                                    setForm({ ...form, userId: e.target.value })}
+                                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                            >
+                                <option value="">Select a user</option>
+                                {users.map((u) => (
+                                    <option key={u.id} value={u.id}>
+                                        {u.email} ({u.name})
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="billToPartyCode">Customer Code</Label>
+                            <Input
+                                id="billToPartyCode"
+                                required
+                                placeholder="Bill-to party code"
+                                value={form.billToPartyCode}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        billToPartyCode: e.target.value,
+                                    })}
+                            />
+                        </div>
+                        <Button type="submit">Link</Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Link requests</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full border-collapse text-sm">
+                            <thead className="bg-muted/50">
+                                <tr className="border-b border-border">
+                                    <th className="px-3 py-2 text-left font-semibold">User</th>
+                                    <th className="px-3 py-2 text-left font-semibold">Customer</th>
+                                    <th className="px-3 py-2 text-left font-semibold">Status</th>
+                                    <th className="px-3 py-2 text-left font-semibold">Requested</th>
+                                    <th className="px-3 py-2" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {links.length === 0 && (
+                                    <tr>
+                                        <td
+                                            colSpan={5}
+                                            className="px-3 py-6 text-center text-muted-foreground"
+                                        >
+                                            No link requests yet.
+                                        </td>
+                                    </tr>
+                                )}
+                                {links.map((link) => (
+                                    <tr key={link.id} className="border-b border-border">
+                                        <td className="px-3 py-2">
+                                            <div className="font-medium">{link.userName}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {link.userEmail}
+                                            </div>
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                                                {link.billToPartyCode}
+                                            </code>
+                                            {link.billToParty && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    {link.billToParty}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <span
+                                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                                                    STATUS_STYLES[link.status]
+                                                }`}
+                                            >
+                                                {link.status}
+                                            </span>
+                                        </td>
+                                        <td className="px-3 py-2 text-muted-foreground">
+                                            {new Date(link.requestedAt).toLocaleDateString()}
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <div className="flex justify-end gap-2">
+                                                {link.status !== "approved" && (
+                                                    <Button
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            handleReview(link.id, "approved")}
+                                                    >
+                                                        Approve
+                                                    </Button>
+                                                )}
+                                                {link.status === "pending" && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() =>
+                                                            handleReview(link.id, "rejected")}
+                                                    >
+                                                        Reject
+                                                    </Button>
+                                                )}
+                                                {link.status === "approved" && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        onClick={() => handleDelete(link.id)}
+                                                    >
+                                                        Unlink
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
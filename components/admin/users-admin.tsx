@@ -0,0 +1,180 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { USER_ROLES, type UserRole } from "@/lib/roles";
+
+type AdminUser = {
+    id: string;
+    name: string;
+    email: string;
+    role: UserRole;
+    agentCode: string | null;
+    brokerCode: string | null;
+};
+
+async function fetchUsers(): Promise<AdminUser[]> {
+    const res = await fetch("/api/admin/users");
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error ?? "Failed to load users.");
+    }
+    return data.users;
+}
+
+function UserRow({
+    user,
+    isCurrentUser,
+    onSaved,
+    onError,
+}: {
+    user: AdminUser;
+    isCurrentUser: boolean;
+    onSaved: () => void;
+    onError: (message: string) => void;
+}) {
+    const [role, setRole] = useState<UserRole>(user.role);
+    const [agentCode, setAgentCode] = useState(user.agentCode ?? "");
+    const [brokerCode, setBrokerCode] = useState(user.brokerCode ?? "");
+    const isDirty = role !== user.role ||
+        agentCode !== (user.agentCode ?? "") ||
+        brokerCode !== (user.brokerCode ?? "");
+
+    const handleSave = async () => {
+        const res = await fetch(`/api/admin/users/${user.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                role,
+                agentCode: agentCode || null,
+                brokerCode: brokerCode || null,
+            }),
+        });
+        if (!res.ok) {
+            const data = await res.json();
+            onError(data.error ?? "Failed to update user.");
+            return;
+        }
+        onSaved();
+    };
+
+    return (
+        <tr className="border-b border-border">
+            <td className="px-3 py-2">
+                <div className="font-medium">{user.name}</div>
+                <div className="text-xs text-muted-foreground">{user.email}</div>
+            </td>
+            <td className="px-3 py-2">
+                <select
+                    value={role}
+                    disabled={isCurrentUser}
+                    onChange={(e) => setRole(e.target.value as UserRole)}
+                    className="h-8 rounded-md border border-input bg-transparent px-2 text-sm disabled:opacity-50"
+                >
+                    {USER_ROLES.map((r) => (
+                        <option key={r} value={r}>
+                            {r}
+                        </option>
+                    ))}
+                </select>
+            </td>
+            <td className="px-3 py-2">
+                <Input
+                    value={agentCode}
+                    placeholder={role === "agent" ? "Required" : "—"}
+                    onChange={(e) => setAgentCode(e.target.value)}
+                    className="h-8 max-w-40"
+                />
+            </td>
+            <td className="px-3 py-2">
+                <Input
+                    value={brokerCode}
+                    placeholder={role === "broker" ? "Required" : "—"}
+                    onChange={(e) => setBrokerCode(e.target.value)}
+                    className="h-8 max-w-40"
+                />
+            </td>
+            <td className="px-3 py-2 text-right">
+                <Button size="sm" disabled={!isDirty} onClick={handleSave}>
+                    Save
+                </Button>
+            </td>
+        </tr>
+    );
+}
+
+export default function UsersAdmin({
+    currentUserId,
+}: {
+    currentUserId: string;
+}) {
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadUsers = useCallback(
+        () =>
+            fetchUsers()
+                .then(setUsers)
+                .catch((err: Error) => setError(err.message)),
+        [],
+    );
+
+    useEffect(() => {
+        loadUsers();
+    }, [loadUsers]);
+
+    return (
+        <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold">Users</h1>
+                <p className="text-sm text-muted-foreground">
+                    Assign roles and link agents and brokers to their codes.
+                </p>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-xl text-sm text-destructive">
+                    {error}
+                </div>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>All users</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full border-collapse text-sm">
+                            <thead className="bg-muted/50">
+                                <tr className="border-b border-border">
+                                    <th className="px-3 py-2 text-left font-semibold">User</th>
+                                    <th className="px-3 py-2 text-left font-semibold">Role</th>
+                                    <th className="px-3 py-2 text-left font-semibold">Agent Code</th>
+                                    <th className="px-3 py-2 text-left font-semibold">Broker Code</th>
+                                    <th className="px-3 py-2" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {users.map((user) => (
+                                    <UserRow
+                                        // Re-mount after a save so local edits reset to the stored values
+                                        key={`${user.id}-${user.role}-${user.agentCode}-${user.brokerCode}`}
+                                        user={user}
+                                        isCurrentUser={user.id === currentUserId}
+                                        onSaved={() => {
+                                            setError(null);
+                                            loadUsers();
+                                        }}
+                                        onError={setError}
+                                    />
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
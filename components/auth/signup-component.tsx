@@ -22,7 +22,11 @@ export default function SignupComponent() {
         email: "",
         username: "",
         password: "",
+        customerCode: "",
     });
+    const [error, setError] = useState<string | null>(null);
+    // Set when the account exists but the customer link request failed
+    const [linkError, setLinkError] = useState<string | null>(null);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setFormData({ ...formData, [e.target.name]: e.target.value });
@@ -30,17 +34,43 @@ export default function SignupComponent() {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        setError(null);
 
         try {
-            await authClient.signUp.email({
+            const { error: signUpError } = await authClient.signUp.email({
                 email: formData.email,
                 password: formData.password,
                 name: formData.username,
             });
+            if (signUpError) {
+                setError(signUpError.message ?? "Sign up failed.");
+                return;
+            }
             console.log("Signup successful");
+
+            // The new session lets us file a link request; an admin must approve it
+            // before any invoices become visible to this account.
+            if (formData.customerCode.trim()) {
+                const res = await fetch("/api/customer-links", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        billToPartyCode: formData.customerCode.trim(),
+                    }),
+                });
+                if (!res.ok) {
+                    const data = await res.json();
+                    setLinkError(
+                        `${data.error ?? "The customer link request failed."} ` +
+                            "Your account was created; you can request the link again from your dashboard after signing in.",
+                    );
+                    return;
+                }
+            }
             router.push("/sign-in");
         } catch (error) {
             console.error("Signup failed:", error);
+            setError("Sign up failed. Please try again.");
         }
     };
 
@@ -55,6 +85,23 @@ export default function SignupComponent() {
                 </CardHeader>
 
                 <CardContent>
+                    {linkError && (
+                        <div className="mb-4 grid gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-xl text-sm text-destructive">
+                            <p>{linkError}</p>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => router.push("/sign-in")}
+                            >
+                                Continue to sign in
+                            </Button>
+                        </div>
+                    )}
+                    {error && (
+                        <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-xl text-sm text-destructive">
+                            {error}
+                        </div>
+                    )}
                     <form onSubmit={handleSubmit} className="grid gap-4">
                         {/* Username */}
 
@@ -100,7 +147,27 @@ export default function SignupComponent() {
                             />
                         </div>
 
-                        <Button type="submit" className="w-full">
+                        {/* Customer code */}
+                        <div className="grid gap-2">
+                            <Label htmlFor="customerCode">Customer Code (optional)</Label>
+                            <Input
+                                id="customerCode"
+                                name="customerCode"
+                                type="text"
+                                placeholder="Your bill-to party code"
+                                onChange={handleChange}
+                                value={formData.customerCode}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Your invoices become visible once an admin approves the link.
+                            </p>
+                        </div>
+
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={linkError !== null}
+                        >
                             Sign Up
                         </Button>
                     </form>
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  updatedAt: string;
+};
+
+// ========================
+// Icons
+// ========================
+
+function PlusIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M5 12h14" />
+      <path d="M12 5v14" />
+    </svg>
+  );
+}
+
+function PencilIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M21.174 6.812a1 1 0 0 0-3.986-3.987L3.842 16.174a2 2 0 0 0-.5.83l-1.321 4.352a.5.5 0 0 0 .623.622l4.353-1.32a2 2 0 0 0 .83-.497z" />
+    </svg>
+  );
+}
+
+function TrashIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M3 6h18" />
+      <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
+      <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+    </svg>
+  );
+}
+
+// ========================
+// Components
+// ========================
+
+function ConversationItem({
+  conversation,
+  isActive,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  conversation: ConversationSummary;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsEditing(false);
+    if (title.trim() && title.trim() !== conversation.title) {
+      onRename(title.trim());
+    } else {
+      setTitle(conversation.title);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleRenameSubmit} className="px-2 py-1">
+        <input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={handleRenameSubmit}
+          className="w-full px-2 py-1.5 rounded-lg border border-primary/50 bg-card text-sm focus:outline-none"
+        />
+      </form>
+    );
+  }
+
+  return (
+    <div
+      className={`group flex items-center gap-1 rounded-lg px-2 ${
+        isActive ? "bg-secondary" : "hover:bg-secondary/60"
+      }`}
+    >
+      <button
+        onClick={onSelect}
+        className="flex-1 min-w-0 py-2 text-left text-sm truncate text-foreground"
+        title={conversation.title}
+      >
+        {conversation.title}
+      </button>
+      <button
+        onClick={() => setIsEditing(true)}
+        className="p-1 rounded-md text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-all"
+        aria-label="Rename conversation"
+      >
+        <PencilIcon className="size-3.5" />
+      </button>
+      <button
+        onClick={onDelete}
+        className="p-1 rounded-md text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-all"
+        aria-label="Delete conversation"
+      >
+        <TrashIcon className="size-3.5" />
+      </button>
+    </div>
+  );
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  onNew,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  conversations: ConversationSummary[];
+  activeId: string;
+  onNew: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  return (
+    <aside className="hidden md:flex sticky top-0 h-screen w-64 shrink-0 flex-col border-r border-border/50 bg-background/60 backdrop-blur-xl">
+      <div className="p-3">
+        <Button
+          variant="outline"
+          onClick={onNew}
+          className="w-full justify-start rounded-xl"
+        >
+          <PlusIcon className="size-4" />
+          New chat
+        </Button>
+      </div>
+      <nav className="flex-1 overflow-y-auto scrollbar-thin px-2 pb-4 space-y-0.5">
+        {conversations.length === 0 && (
+          <p className="px-2 py-4 text-xs text-muted-foreground">
+            Your past conversations will appear here.
+          </p>
+        )}
+        {conversations.map((conversation) => (
+          <ConversationItem
+            key={`${conversation.id}-${conversation.title}`}
+            conversation={conversation}
+            isActive={conversation.id === activeId}
+            onSelect={() => onSelect(conversation.id)}
+            onRename={(title) => onRename(conversation.id, title)}
+            onDelete={() => onDelete(conversation.id)}
+          />
+        ))}
+      </nav>
+    </aside>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  getToolOrDynamicToolName,
+  type DynamicToolUIPart,
+  type ToolUIPart,
+} from "ai";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  type ChartSpec,
+  extractTables,
+  getToolError,
+  inferChart,
+  toNumber,
+  type ToolTable,
+} from "@/lib/chat/toolOutput";
+
+export type ToolPart = ToolUIPart | DynamicToolUIPart;
+
+// ========================
+// Configuration
+// ========================
+
+const GRID_PREVIEW_ROWS = 10;
+const MAX_TABLES_PER_RESULT = 4;
+
+const CHART_COLORS = [
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+];
+
+const numberFormatter = new Intl.NumberFormat("en-IN", {
+  maximumFractionDigits: 2,
+});
+
+// ========================
+// Helpers
+// ========================
+
+// "getQuarterlyRevenue" -> "Quarterly revenue"
+export function formatToolName(name: string) {
+  const words = name
+    .replace(/^get/, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatColumnName(key: string) {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/_/g, " ")
+    .replace(/^./, (c) => c.toUpperCase());
+}
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "number") return numberFormatter.format(value);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function compareCells(a: unknown, b: unknown) {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return String(a).localeCompare(String(b));
+}
+
+// Shade a percentage cell; values above 100 (e.g. revenue expansion) cap out
+function heatmapStyle(value: unknown) {
+  const n = toNumber(value);
+  if (n === null) return undefined;
+  const intensity = Math.round(Math.min(Math.max(n, 0), 100) * 0.7);
+  return {
+    backgroundColor: `color-mix(in oklch, var(--chart-1) ${intensity}%, transparent)`,
+  };
+}
+
+// ========================
+// Components
+// ========================
+
+export function DataGrid({ table }: { table: ToolTable }) {
+  const [sort, setSort] = useState<{ key: string; dir: "asc" | "desc" } | null>(
+    null
+  );
+  const [showAll, setShowAll] = useState(false);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return table.rows;
+    const sorted = [...table.rows].sort((a, b) =>
+      compareCells(a[sort.key], b[sort.key])
+    );
+    return sort.dir === "asc" ? sorted : sorted.reverse();
+  }, [table.rows, sort]);
+
+  const visibleRows = showAll
+    ? sortedRows
+    : sortedRows.slice(0, GRID_PREVIEW_ROWS);
+
+  const handleSort = (key: string) => {
+    setSort((prev) =>
+      prev?.key === key
+        ? { key, dir: prev.dir === "asc" ? "desc" : "asc" }
+        : { key, dir: "desc" }
+    );
+  };
+
+  return (
+    <div>
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="min-w-full border-collapse text-xs">
+          <thead className="bg-muted/50">
+            <tr className="border-b border-border">
+              {table.columns.map((key) => (
+                <th
+                  key={key}
+                  className="px-3 py-2 text-left font-semibold whitespace-nowrap"
+                >
+                  <button
+                    onClick={() => handleSort(key)}
+                    className="inline-flex items-center gap-1 hover:text-primary"
+                  >
+                    {formatColumnName(key)}
+                    {sort?.key === key && (
+                      <span aria-hidden>{sort.dir === "asc" ? "▲" : "▼"}</span>
+                    )}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row, i) => (
+              <tr key={i} className="border-b border-border last:border-0">
+                {table.columns.map((key) => (
+                  <td
+                    key={key}
+                    className={`px-3 py-1.5 whitespace-nowrap ${
+                      toNumber(row[key]) !== null ? "text-right tabular-nums" : ""
+                    }`}
+                    style={
+                      table.heatmapColumns?.includes(key)
+                        ? heatmapStyle(row[key])
+                        : undefined
+                    }
+                  >
+                    {formatCell(row[key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {sortedRows.length > GRID_PREVIEW_ROWS && (
+        <button
+          onClick={() => setShowAll((prev) => !prev)}
+          className="mt-1.5 text-xs text-primary hover:underline"
+        >
+          {showAll
+            ? "Show fewer rows"
+            : `Show all ${sortedRows.length} rows`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function ToolChart({ chart }: { chart: ChartSpec }) {
+  const axisProps = {
+    tick: { fontSize: 11 },
+    stroke: "var(--muted-foreground)",
+  };
+
+  return (
+    <div className="h-60 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        {chart.type === "line" ? (
+          <LineChart data={chart.data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+            <XAxis dataKey={chart.xKey} {...axisProps} />
+            <YAxis
+              {...axisProps}
+              tickFormatter={(v) => numberFormatter.format(v)}
+            />
+            <Tooltip formatter={(v) => formatCell(v)} />
+            {chart.yKeys.length > 1 && <Legend />}
+            {chart.yKeys.map((key, i) => (
+              <Line
+                key={key}
+                type="monotone"
+                dataKey={key}
+                name={formatColumnName(key)}
+                stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        ) : (
+          <BarChart data={chart.data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+            <XAxis dataKey={chart.xKey} {...axisProps} />
+            <YAxis
+              {...axisProps}
+              tickFormatter={(v) => numberFormatter.format(v)}
+            />
+            <Tooltip formatter={(v) => formatCell(v)} />
+            {chart.yKeys.length > 1 && <Legend />}
+            {chart.yKeys.map((key, i) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                name={formatColumnName(key)}
+                fill={CHART_COLORS[i % CHART_COLORS.length]}
+                radius={[4, 4, 0, 0]}
+              />
+            ))}
+          </BarChart>
+        )}
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function ToolTableView({ table }: { table: ToolTable }) {
+  const chart = useMemo(() => inferChart(table), [table]);
+
+  return (
+    <div className="space-y-2">
+      {table.title && (
+        <p className="text-xs font-medium text-muted-foreground">
+          {formatColumnName(table.title)}
+        </p>
+      )}
+      {chart && <ToolChart chart={chart} />}
+      <DataGrid table={table} />
+    </div>
+  );
+}
+
+export function ToolResult({ part }: { part: ToolPart }) {
+  const toolName = getToolOrDynamicToolName(part);
+  const tables = useMemo(
+    () =>
+      part.state === "output-available"
+        ? extractTables(part.output).slice(0, MAX_TABLES_PER_RESULT)
+        : [],
+    [part]
+  );
+
+  if (part.state === "input-streaming" || part.state === "input-available") {
+    return (
+      <div className="my-2 inline-flex items-center gap-2 rounded-full bg-secondary px-3 py-1 text-xs text-muted-foreground">
+        <span className="typing-dot size-1.5 rounded-full bg-primary/60" />
+        Running {formatToolName(toolName)}…
+      </div>
+    );
+  }
+
+  if (part.state === "output-error") {
+    return (
+      <div className="my-2 rounded-lg bg-destructive/10 px-3 py-2 text-xs text-destructive">
+        {formatToolName(toolName)} failed: {part.errorText}
+      </div>
+    );
+  }
+
+  const toolError = getToolError(part.output);
+  if (toolError) {
+    return (
+      <div className="my-2 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+        {toolError}
+      </div>
+    );
+  }
+
+  if (tables.length === 0) return null;
+
+  return (
+    <details
+      open
+      className="my-3 w-[36rem] max-w-full rounded-xl border border-border bg-muted/20"
+    >
+      <summary className="cursor-pointer select-none px-3 py-2 text-xs font-semibold text-muted-foreground">
+        {formatToolName(toolName)}
+      </summary>
+      <div className="space-y-4 px-3 pb-3">
+        {tables.map((table, i) => (
+          <ToolTableView key={`${table.title}-${i}`} table={table} />
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,353 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { DataGrid, ToolChart } from "@/components/chat/tool-result";
+import {
+    EmptyPanel,
+    formatCurrency,
+    formatNumber,
+    KpiCard,
+    Panel,
+} from "@/components/dashboard/panels";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toNumber } from "@/lib/chat/toolOutput";
+import type { AdminDashboardData, AdminDashboardFilters } from "@/lib/dashboard";
+
+type DateRangePreset = {
+    label: string;
+    range: () => { fromDate: string; toDate: string };
+};
+
+function toIsoDate(date: Date) {
+    return date.toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number) {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date;
+}
+
+const PRESETS: DateRangePreset[] = [
+    {
+        label: "Last 30 days",
+        range: () => ({
+            fromDate: toIsoDate(daysAgo(30)),
+            toDate: toIsoDate(new Date()),
+        }),
+    },
+    {
+        label: "This month",
+        range: () => {
+            const today = new Date();
+            return {
+                fromDate: toIsoDate(
+                    new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1)),
+                ),
+                toDate: toIsoDate(today),
+            };
+        },
+    },
+    {
+        label: "Last 12 months",
+        range: () => ({
+            fromDate: toIsoDate(daysAgo(365)),
+            toDate: toIsoDate(new Date()),
+        }),
+    },
+];
+
+function toQueryString(filters: AdminDashboardFilters) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+    }
+    return params.toString();
+}
+
+async function fetchDashboard(query: string): Promise<AdminDashboardData> {
+    const res = await fetch(`/api/admin/dashboard?${query}`);
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error ?? "Failed to load the dashboard.");
+    }
+    return data;
+}
+
+export default function AdminDashboard({ regions }: { regions: string[] }) {
+    const [filters, setFilters] = useState<AdminDashboardFilters>(
+        PRESETS[0].range,
+    );
+    const [result, setResult] = useState<{
+        query: string;
+        data: AdminDashboardData | null;
+        error: string | null;
+    } | null>(null);
+
+    const query = toQueryString(filters);
+    const isLoading = result?.query !== query;
+    const data = result?.data ?? null;
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchDashboard(query)
+            .then((data) => {
+                if (!cancelled) setResult({ query, data, error: null });
+            })
+            .catch((err: Error) => {
+                if (!cancelled) {
+                    setResult({ query, data: null, error: err.message });
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [query]);
+
+    const regionChart = useMemo(
+        () =>
+            data && data.revenueByRegion.length > 0
+                ? {
+                    type: "bar" as const,
+                    xKey: "region",
+                    yKeys: ["netRevenue"],
+                    data: data.revenueByRegion.map((row) => ({
+                        region: row.regionZone ?? "Unassigned",
+                        netRevenue: toNumber(row.totalNetAmountInr),
+                    })),
+                }
+                : null,
+        [data],
+    );
+
+    const updateFilter = (key: keyof AdminDashboardFilters, value: string) =>
+        setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold">Dashboard</h1>
+                    <p className="text-sm text-muted-foreground">
+                        Sales for the selected period and region, alongside
+                        the current stock position.
+                    </p>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                    <Link href="/dashboard/anomalies">Invoice anomalies</Link>
+                </Button>
+            </div>
+
+            {/* Filter bar */}
+            <Card className="py-4">
+                <CardContent className="px-4 flex flex-wrap items-end gap-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="fromDate">From</Label>
+                        <Input
+                            id="fromDate"
+                            type="date"
+                            value={filters.fromDate ?? ""}
+                            onChange={(e) =>
+                                updateFilter("fromDate", e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="toDate">To</Label>
+                        <Input
+                            id="toDate"
+                            type="date"
+                            value={filters.toDate ?? ""}
+                            onChange={(e) =>
+                                updateFilter("toDate", e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="regionZone">Region</Label>
+                        <select
+                            id="regionZone"
+                            value={filters.regionZone ?? ""}
+                            onChange={(e) =>
+                                updateFilter("regionZone", e.target.value)}
+                            className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+                        >
+                            <option value="">All regions</option>
+                            {regions.map((region) => (
+                                <option key={region} value={region}>
+                                    {region}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {PRESETS.map((preset) => (
+                            <Button
+                                key={preset.label}
+                                variant="outline"
+                                size="sm"
+                                onClick={() =>
+                                    setFilters((prev) => ({
+                                        ...prev,
+                                        ...preset.range(),
+                                    }))}
+                            >
+                                {preset.label}
+                            </Button>
+                        ))}
+                    </div>
+                    {isLoading && (
+                        <span className="text-xs text-muted-foreground">
+                            Loading…
+                        </span>
+                    )}
+                </CardContent>
+            </Card>
+
+            {result?.error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-xl text-sm text-destructive">
+                    {result.error}
+                </div>
+            )}
+
+            {data && (
+                <>
+                    {/* KPIs */}
+                    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                        <KpiCard
+                            label="Net revenue"
+                            value={formatCurrency(
+                                data.invoiceKpis.totalNetAmountInr,
+                            )}
+                            hint={`${formatNumber(data.invoiceKpis.totalInvoices)} invoice lines`}
+                        />
+                        <KpiCard
+                            label="Average invoice"
+                            value={formatCurrency(
+                                data.invoiceKpis.avgInvoiceNetAmount,
+                            )}
+                        />
+                        <KpiCard
+                            label="Discounts given"
+                            value={formatCurrency(
+                                data.invoiceKpis.totalDiscountAmount,
+                            )}
+                        />
+                        <KpiCard
+                            label="GST billed"
+                            value={formatCurrency(
+                                data.invoiceKpis.totalGstAmount,
+                            )}
+                        />
+                        <KpiCard
+                            label="Stock value"
+                            value={formatCurrency(data.stockKpis.totalStockValue)}
+                            hint={`${formatNumber(data.stockKpis.totalStockQuantity)} m in stock`}
+                        />
+                        <KpiCard
+                            label="Materials in stock"
+                            value={formatNumber(
+                                data.stockKpis.materialsWithStock,
+                            )}
+                            hint={`${formatNumber(data.stockKpis.materialsWithZeroStock)} with zero stock`}
+                        />
+                        <KpiCard
+                            label="Average lead time"
+                            value={`${formatNumber(data.stockKpis.avgLeadTimeDays)} days`}
+                        />
+                        <KpiCard
+                            label="Due for replenishment"
+                            value={formatNumber(
+                                data.replenishment.itemsNeedingReplenishment,
+                            )}
+                            hint={`Within ${data.replenishment.daysAhead} days`}
+                        />
+                    </div>
+
+                    <div className="grid gap-6 lg:grid-cols-2">
+                        <Panel
+                            title="Revenue by region"
+                            description="Net revenue in INR"
+                        >
+                            {regionChart
+                                ? <ToolChart chart={regionChart} />
+                                : <EmptyPanel />}
+                        </Panel>
+
+                        <Panel
+                            title="Top products"
+                            description="Best sellers by net revenue"
+                        >
+                            {data.topProducts.length > 0
+                                ? (
+                                    <DataGrid
+                                        table={{
+                                            title: null,
+                                            columns: [
+                                                "material",
+                                                "design",
+                                                "shade",
+                                                "totalRevenue",
+                                                "totalQuantity",
+                                            ],
+                                            rows: data.topProducts,
+                                        }}
+                                    />
+                                )
+                                : <EmptyPanel />}
+                        </Panel>
+
+                        <Panel
+                            title="Replenishment due"
+                            description={`Materials with a replenishment date in the next ${data.replenishment.daysAhead} days`}
+                        >
+                            {data.replenishment.items.length > 0
+                                ? (
+                                    <DataGrid
+                                        table={{
+                                            title: null,
+                                            columns: [
+                                                "material",
+                                                "description2ForTheMaterialGroup",
+                                                "stockInMeters",
+                                                "leadTimeDays",
+                                                "replenishmentDate",
+                                                "projectedStockOutDate",
+                                            ],
+                                            rows: data.replenishment.items,
+                                        }}
+                                    />
+                                )
+                                : <EmptyPanel />}
+                        </Panel>
+
+                        <Panel
+                            title="Excess stock"
+                            description={`Stock covering ${data.excessStock.coverageThreshold}+ months of sales, by value`}
+                        >
+                            {data.excessStock.excessItems.length > 0
+                                ? (
+                                    <DataGrid
+                                        table={{
+                                            title: null,
+                                            columns: [
+                                                "material",
+                                                "description",
+                                                "currentStock",
+                                                "stockValue",
+                                                "coverageMonths",
+                                            ],
+                                            rows: data.excessStock.excessItems,
+                                        }}
+                                    />
+                                )
+                                : <EmptyPanel />}
+                        </Panel>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
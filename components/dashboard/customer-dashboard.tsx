@@ -0,0 +1,193 @@
+import { DataGrid, ToolChart } from "@/components/chat/tool-result";
+import CustomerLinkRequest from "@/components/dashboard/customer-link-request";
+import {
+    EmptyPanel,
+    formatCurrency,
+    formatNumber,
+    KpiCard,
+    Panel,
+} from "@/components/dashboard/panels";
+import { toNumber } from "@/lib/chat/toolOutput";
+import type { CustomerDashboardData } from "@/lib/dashboard";
+
+function DashboardShell({
+    title,
+    description,
+    children,
+}: {
+    title: string;
+    description: string;
+    children?: React.ReactNode;
+}) {
+    return (
+        <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold">{title}</h1>
+                <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            {children}
+        </div>
+    );
+}
+
+export function CustomerDashboardUnavailable({ error }: { error: string }) {
+    return (
+        <DashboardShell title="My Dashboard" description={error}>
+            <CustomerLinkRequest />
+        </DashboardShell>
+    );
+}
+
+export default function CustomerDashboard({
+    data,
+}: {
+    data: CustomerDashboardData;
+}) {
+    const { profile, yearToDate, spendTrend, topMaterials, recentInvoices } =
+        data;
+
+    const spendChart = spendTrend.length > 0
+        ? {
+            type: "line" as const,
+            xKey: "month",
+            yKeys: ["spend"],
+            data: spendTrend.map((row) => ({
+                month: row.month,
+                spend: toNumber(row.totalNetAmount),
+            })),
+        }
+        : null;
+
+    return (
+        <DashboardShell
+            title="My Dashboard"
+            description={`${profile.name} · Customer ${profile.billToPartyCodes.join(", ")}`}
+        >
+            {/* Year-to-date totals */}
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <KpiCard
+                    label={`Spend in ${data.fiscalYear.label}`}
+                    value={formatCurrency(yearToDate?.totalNetAmountInr)}
+                    hint={`Since ${data.fiscalYear.fromDate}`}
+                />
+                <KpiCard
+                    label="Invoice lines this fiscal year"
+                    value={formatNumber(yearToDate?.invoiceCount)}
+                />
+                <KpiCard
+                    label="Discounts this fiscal year"
+                    value={formatCurrency(yearToDate?.totalDiscountAmount)}
+                />
+                <KpiCard
+                    label="GST this fiscal year"
+                    value={formatCurrency(yearToDate?.totalGstAmount)}
+                    hint={`Lifetime spend ${formatCurrency(profile.stats.totalSpent)}`}
+                />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                <Panel
+                    title="Spend trend"
+                    description="Net purchases per month, last 12 months"
+                >
+                    {spendChart
+                        ? <ToolChart chart={spendChart} />
+                        : <EmptyPanel message="No purchases in the last year." />}
+                </Panel>
+
+                <Panel
+                    title="Top materials"
+                    description="What you buy most, by net amount"
+                >
+                    {topMaterials.length > 0
+                        ? (
+                            <DataGrid
+                                table={{
+                                    title: null,
+                                    columns: [
+                                        "material",
+                                        "ainocularDesignDescription",
+                                        "fabricType",
+                                        "totalQuantity",
+                                        "totalNetAmount",
+                                    ],
+                                    rows: topMaterials,
+                                }}
+                            />
+                        )
+                        : <EmptyPanel message="No purchases yet." />}
+                </Panel>
+            </div>
+
+            <Panel title="Recent invoices">
+                {recentInvoices.length > 0
+                    ? (
+                        <div className="overflow-x-auto rounded-lg border border-border">
+                            <table className="min-w-full border-collapse text-sm">
+                                <thead className="bg-muted/50">
+                                    <tr className="border-b border-border text-left">
+                                        <th className="px-3 py-2 font-semibold">
+                                            Invoice
+                                        </th>
+                                        <th className="px-3 py-2 font-semibold">
+                                            Date
+                                        </th>
+                                        <th className="px-3 py-2 font-semibold">
+                                            Billed to
+                                        </th>
+                                        <th className="px-3 py-2 font-semibold text-right">
+                                            Lines
+                                        </th>
+                                        <th className="px-3 py-2 font-semibold text-right">
+                                            Net amount
+                                        </th>
+                                        <th className="px-3 py-2" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {recentInvoices.map((row) => (
+                                        <tr
+                                            key={row.billingDocument}
+                                            className="border-b border-border last:border-0"
+                                        >
+                                            <td className="px-3 py-2 font-medium">
+                                                {row.billingDocument}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                {row.invoiceDate ?? "—"}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                {row.billToParty ?? "—"}
+                                            </td>
+                                            <td className="px-3 py-2 text-right tabular-nums">
+                                                {row.lineCount}
+                                            </td>
+                                            <td className="px-3 py-2 text-right tabular-nums">
+                                                {formatCurrency(row.netAmountInr)}
+                                            </td>
+                                            <td className="px-3 py-2 text-right">
+                                                {row.pdfUrl && (
+                                                    <a
+                                                        href={row.pdfUrl}
+                                                        download={`invoice-${row.billingDocument}.pdf`}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="text-primary hover:underline"
+                                                    >
+                                                        PDF
+                                                    </a>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )
+                    : <EmptyPanel message="No invoices yet." />}
+            </Panel>
+
+            <CustomerLinkRequest />
+        </DashboardShell>
+    );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Panel } from "@/components/dashboard/panels";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type CustomerLink = {
+    id: number;
+    billToPartyCode: string;
+    status: "pending" | "approved" | "rejected";
+    requestedAt: string;
+};
+
+const STATUS_STYLES: Record<CustomerLink["status"], string> = {
+    pending: "bg-amber-500/10 text-amber-700",
+    approved: "bg-emerald-500/10 text-emerald-700",
+    rejected: "bg-destructive/10 text-destructive",
+};
+
+async function fetchLinks(): Promise<CustomerLink[]> {
+    const res = await fetch("/api/customer-links");
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error ?? "Failed to load link requests.");
+    }
+    return data.links;
+}
+
+/**
+ * Lets a signed-in customer ask to be linked to a customer code, or ask
+ * again after a rejection. Links only take effect once an admin approves.
+ */
+export default function CustomerLinkRequest() {
+    const [links, setLinks] = useState<CustomerLink[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [billToPartyCode, setBillToPartyCode] = useState("");
+
+    const loadLinks = useCallback(
+        () =>
+            fetchLinks()
+                .then(setLinks)
+                .catch((err: Error) => setError(err.message)),
+        [],
+    );
+
+    useEffect(() => {
+        loadLinks();
+    }, [loadLinks]);
+
+    const requestLink = async (code: string) => {
+        setError(null);
+
+        const res = await fetch("/api/customer-links", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ billToPartyCode: code }),
+        });
+        if (!res.ok) {
+            const data = await res.json();
+            setError(data.error ?? "Failed to request the link.");
+            return false;
+        }
+
+        await loadLinks();
+        return true;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await requestLink(billToPartyCode.trim())) {
+            setBillToPartyCode("");
+        }
+    };
+
+    return (
+        <Panel
+            title="Customer links"
+            description="Request access to a customer account. Invoices become visible once an admin approves the link."
+        >
+            <div className="space-y-4">
+                {error && (
+                    <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-xl text-sm text-destructive">
+                        {error}
+                    </div>
+                )}
+
+                <form
+                    onSubmit={handleSubmit}
+                    className="grid gap-4 sm:grid-cols-[1fr_auto] sm:items-end"
+                >
+                    <div className="grid gap-2">
+                        <Label htmlFor="billToPartyCode">Customer Code</Label>
+                        <Input
+                            id="billToPartyCode"
+                            required
+                            placeholder="Your bill-to party code"
+                            value={billToPartyCode}
+                            onChange={(e) => setBillToPartyCode(e.target.value)}
+                        />
+                    </div>
+                    <Button type="submit">Request link</Button>
+                </form>
+
+                {links.length > 0 && (
+                    <ul className="divide-y divide-border text-sm">
+                        {links.map((link) => (
+                            <li
+                                key={link.id}
+                                className="flex items-center gap-3 py-2"
+                            >
+                                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                                    {link.billToPartyCode}
+                                </code>
+                                <span
+                                    className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                                        STATUS_STYLES[link.status]
+                                    }`}
+                                >
+                                    {link.status}
+                                </span>
+                                <span className="text-muted-foreground">
+                                    {new Date(link.requestedAt).toLocaleDateString()}
+                                </span>
+                                {link.status === "rejected" && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="ml-auto"
+                                        onClick={() =>
+                                            requestLink(link.billToPartyCode)}
+                                    >
+                                        Request again
+                                    </Button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </Panel>
+    );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DataGrid } from "@/components/chat/tool-result";
+import {
+    EmptyPanel,
+    formatNumber,
+    KpiCard,
+    Panel,
+} from "@/components/dashboard/panels";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type {
+    AnomalySeverity,
+    AnomalyType,
+    InvoiceAnomalyReport,
+} from "@/lib/invoiceAnomalies";
+
+type AnomalyFilters = {
+    fromDate?: string;
+    toDate?: string;
+    type?: string;
+    minSeverity?: string;
+};
+
+const TYPE_LABELS: Record<AnomalyType, string> = {
+    price_outlier: "Unit price outlier",
+    negative_quantity: "Negative quantity",
+    duplicate_line: "Duplicate line",
+    amount_mismatch: "Net amount mismatch",
+};
+
+const ANOMALY_TYPES = Object.keys(TYPE_LABELS) as AnomalyType[];
+
+const SEVERITIES: AnomalySeverity[] = ["high", "medium", "low"];
+
+function toQueryString(filters: AnomalyFilters) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+    }
+    return params.toString();
+}
+
+async function fetchAnomalies(query: string): Promise<InvoiceAnomalyReport> {
+    const res = await fetch(`/api/admin/invoice-anomalies?${query}`);
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error ?? "Failed to scan invoices.");
+    }
+    return data;
+}
+
+export default function InvoiceAnomalies() {
+    const [filters, setFilters] = useState<AnomalyFilters>({});
+    const [result, setResult] = useState<{
+        query: string;
+        data: InvoiceAnomalyReport | null;
+        error: string | null;
+    } | null>(null);
+
+    const query = toQueryString(filters);
+    const isLoading = result?.query !== query;
+    const data = result?.data ?? null;
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchAnomalies(query)
+            .then((data) => {
+                if (!cancelled) setResult({ query, data, error: null });
+            })
+            .catch((err: Error) => {
+                if (!cancelled) {
+                    setResult({ query, data: null, error: err.message });
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [query]);
+
+    const updateFilter = (key: keyof AnomalyFilters, value: string) =>
+        setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+
+    const countBySeverity = (severity: AnomalySeverity) =>
+        data?.summary.reduce((sum, check) => sum + check[severity], 0) ?? 0;
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold">Invoice anomalies</h1>
+                <p className="text-sm text-muted-foreground">
+                    Invoice lines with unusual unit prices, negative
+                    quantities, duplicate billing document items or net
+                    amounts that do not match price × quantity − discount.
+                    Price and amount checks cover INR documents only.
+                    Defaults to the last 90 days.
+                </p>
+            </div>
+
+            {/* Filter bar */}
+            <Card className="py-4">
+                <CardContent className="px-4 flex flex-wrap items-end gap-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="fromDate">From</Label>
+                        <Input
+                            id="fromDate"
+                            type="date"
+                            value={filters.fromDate ?? ""}
+                            onChange={(e) =>
+                                updateFilter("fromDate", e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="toDate">To</Label>
+                        <Input
+                            id="toDate"
+                            type="date"
+                            value={filters.toDate ?? ""}
+                            onChange={(e) =>
+                                updateFilter("toDate", e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="type">Check</Label>
+                        <select
+                            id="type"
+                            value={filters.type ?? ""}
+                            onChange={(e) => updateFilter("type", e.target.value)}
+                            className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+                        >
+                            <option value="">All checks</option>
+                            {ANOMALY_TYPES.map((type) => (
+                                <option key={type} value={type}>
+                                    {TYPE_LABELS[type]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="minSeverity">Minimum severity</Label>
+                        <select
+                            id="minSeverity"
+                            value={filters.minSeverity ?? ""}
+                            onChange={(e) =>
+                                updateFilter("minSeverity", e.target.value)}
+                            className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+                        >
+                            <option value="">Any</option>
+                            {SEVERITIES.map((severity) => (
+                                <option key={severity} value={severity}>
+                                    {severity}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {isLoading && (
+                        <span className="text-xs text-muted-foreground">
+                            Scanning…
+                        </span>
+                    )}
+                </CardContent>
+            </Card>
+
+            {result?.error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-xl text-sm text-destructive">
+                    {result.error}
+                </div>
+            )}
+
+            {data && (
+                <>
+                    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                        <KpiCard
+                            label="Anomalies"
+                            value={formatNumber(data.totalAnomalies)}
+                            hint={`${data.fromDate} to ${data.toDate}`}
+                        />
+                        <KpiCard
+                            label="High severity"
+                            value={formatNumber(countBySeverity("high"))}
+                        />
+                        <KpiCard
+                            label="Medium severity"
+                            value={formatNumber(countBySeverity("medium"))}
+                        />
+                        <KpiCard
+                            label="Low severity"
+                            value={formatNumber(countBySeverity("low"))}
+                        />
+                    </div>
+
+                    <Panel
+                        title="By check"
+                        description="Checks that hit their row cap show only the worst lines"
+                    >
+                        <DataGrid
+                            table={{
+                                title: null,
+                                columns: [
+                                    "check",
+                                    "high",
+                                    "medium",
+                                    "low",
+                                    "truncated",
+                                ],
+                                rows: data.summary.map((check) => ({
+                                    ...check,
+                                    check: TYPE_LABELS[check.type],
+                                })),
+                            }}
+                        />
+                    </Panel>
+
+                    <Panel
+                        title="Flagged lines"
+                        description="Most severe first, then newest"
+                    >
+                        {data.anomalies.length > 0
+                            ? (
+                                <DataGrid
+                                    table={{
+                                        title: null,
+                                        columns: [
+                                            "severity",
+                                            "check",
+                                            "reason",
+                                            "billingDocument",
+                                            "item",
+                                            "invoiceDate",
+                                            "material",
+                                            "billToParty",
+                                            "netAmountInr",
+                                        ],
+                                        rows: data.anomalies.map((anomaly) => ({
+                                            ...anomaly,
+                                            check: TYPE_LABELS[anomaly.type],
+                                        })),
+                                    }}
+                                />
+                            )
+                            : (
+                                <EmptyPanel message="No anomalies found for the selected filters." />
+                            )}
+                    </Panel>
+                </>
+            )}
+        </div>
+    );
+}
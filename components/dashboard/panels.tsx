@@ -0,0 +1,78 @@
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import { toNumber } from "@/lib/chat/toolOutput";
+
+const currencyFormatter = new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+});
+
+const numberFormatter = new Intl.NumberFormat("en-IN", {
+    maximumFractionDigits: 0,
+});
+
+export function formatCurrency(value: unknown) {
+    return currencyFormatter.format(toNumber(value) ?? 0);
+}
+
+export function formatNumber(value: unknown) {
+    return numberFormatter.format(toNumber(value) ?? 0);
+}
+
+export function KpiCard({
+    label,
+    value,
+    hint,
+}: {
+    label: string;
+    value: string;
+    hint?: string;
+}) {
+    return (
+        <Card className="gap-1 py-4">
+            <CardContent className="px-4">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="text-xl font-semibold tabular-nums">{value}</p>
+                {hint && (
+                    <p className="text-xs text-muted-foreground">{hint}</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+export function Panel({
+    title,
+    description,
+    children,
+}: {
+    title: string;
+    description?: string;
+    children: React.ReactNode;
+}) {
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{title}</CardTitle>
+                {description && (
+                    <CardDescription>{description}</CardDescription>
+                )}
+            </CardHeader>
+            <CardContent>{children}</CardContent>
+        </Card>
+    );
+}
+
+export function EmptyPanel({
+    message = "No data for the selected filters.",
+}: {
+    message?: string;
+}) {
+    return <p className="text-sm text-muted-foreground">{message}</p>;
+}
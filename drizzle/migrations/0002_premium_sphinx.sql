@@ -0,0 +1,14 @@
+CREATE TABLE "user_customer_link" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"bill_to_party_code" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"requested_at" timestamp DEFAULT now() NOT NULL,
+	"reviewed_at" timestamp,
+	"reviewed_by" text
+);
+--> statement-breakpoint
+ALTER TABLE "user_customer_link" ADD CONSTRAINT "user_customer_link_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_customer_link" ADD CONSTRAINT "user_customer_link_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_customer_link_userId_idx" ON "user_customer_link" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "user_customer_link_user_code_idx" ON "user_customer_link" USING btree ("user_id","bill_to_party_code");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user" ADD COLUMN "agent_code" text;
\ No newline at end of file
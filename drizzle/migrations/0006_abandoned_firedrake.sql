@@ -0,0 +1,12 @@
+CREATE TABLE "reorder_policy" (
+	"material" text PRIMARY KEY NOT NULL,
+	"service_level" numeric NOT NULL,
+	"lead_time_days" integer NOT NULL,
+	"average_daily_demand" numeric NOT NULL,
+	"daily_demand_std_dev" numeric NOT NULL,
+	"safety_stock" numeric NOT NULL,
+	"reorder_point" numeric NOT NULL,
+	"calculated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reorder_policy" ADD CONSTRAINT "reorder_policy_material_stock_material_fk" FOREIGN KEY ("material") REFERENCES "public"."stock"("material") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "purchase_suggestion_draft" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"created_by" text,
+	"target_coverage_months" numeric NOT NULL,
+	"group_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_suggestion_line" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"draft_id" integer NOT NULL,
+	"group_name" text NOT NULL,
+	"material" text NOT NULL,
+	"description" text,
+	"book_name" text,
+	"fabric_type" text,
+	"current_stock" numeric NOT NULL,
+	"monthly_velocity" numeric NOT NULL,
+	"lead_time_days" integer NOT NULL,
+	"target_stock" numeric NOT NULL,
+	"suggested_quantity" numeric NOT NULL,
+	"basic_price" numeric,
+	"estimated_value" numeric
+);
+--> statement-breakpoint
+ALTER TABLE "purchase_suggestion_draft" ADD CONSTRAINT "purchase_suggestion_draft_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_suggestion_line" ADD CONSTRAINT "purchase_suggestion_line_draft_id_purchase_suggestion_draft_id_fk" FOREIGN KEY ("draft_id") REFERENCES "public"."purchase_suggestion_draft"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "purchase_suggestion_line_draftId_idx" ON "purchase_suggestion_line" USING btree ("draft_id");
\ No newline at end of file
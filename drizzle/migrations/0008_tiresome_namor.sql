@@ -0,0 +1,10 @@
+CREATE TABLE "material_classification" (
+	"material" text PRIMARY KEY NOT NULL,
+	"abc_class" text NOT NULL,
+	"xyz_class" text NOT NULL,
+	"revenue" numeric NOT NULL,
+	"revenue_share" numeric NOT NULL,
+	"cumulative_share" numeric NOT NULL,
+	"coefficient_of_variation" numeric,
+	"computed_at" timestamp NOT NULL
+);
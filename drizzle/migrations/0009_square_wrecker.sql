@@ -0,0 +1,8 @@
+CREATE TABLE "material_classification_run" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"computed_at" timestamp NOT NULL,
+	"materials_classified" integer NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "material_classification_run" ("computed_at", "materials_classified")
+SELECT max("computed_at"), count(*) FROM "material_classification" HAVING count(*) > 0;
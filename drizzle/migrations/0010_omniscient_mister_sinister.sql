@@ -0,0 +1,3 @@
+DROP INDEX "message_conversationId_idx";--> statement-breakpoint
+ALTER TABLE "message" DROP CONSTRAINT "message_pkey";--> statement-breakpoint
+ALTER TABLE "message" ADD CONSTRAINT "message_conversation_id_id_pk" PRIMARY KEY("conversation_id","id");
@@ -7,6 +7,11 @@ export const user = pgTable("user", {
   email: text("email").notNull().unique(),
   emailVerified: boolean("email_verified").default(false).notNull(),
   image: text("image"),
+  role: text("role").default("customer").notNull(),
+  // invoice.agentCode for users with the "agent" role
+  agentCode: text("agent_code"),
+  // invoice.brokerCode for users with the "broker" role
+  brokerCode: text("broker_code"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
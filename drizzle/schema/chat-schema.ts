@@ -0,0 +1,48 @@
+import {
+    index,
+    integer,
+    jsonb,
+    pgTable,
+    primaryKey,
+    text,
+    timestamp,
+} from "drizzle-orm/pg-core";
+
+import { user } from "./auth-schema";
+
+export const conversation = pgTable(
+    "conversation",
+    {
+        // Generated client-side by useChat so a chat can be saved on its first reply
+        id: text("id").primaryKey(),
+        userId: text("user_id")
+            .notNull()
+            .references(() => user.id, { onDelete: "cascade" }),
+        title: text("title").notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at")
+            .defaultNow()
+            .$onUpdate(() => /* @__PURE__ */ new Date())
+            .notNull(),
+    },
+    (table) => [index("conversation_userId_idx").on(table.userId)],
+);
+
+// One row per UIMessage; `parts` and `metadata` are stored exactly as the
+// AI SDK streams them so a conversation can be reopened as-is. Message IDs
+// come from the client, so they are only unique within their conversation.
+export const message = pgTable(
+    "message",
+    {
+        id: text("id").notNull(),
+        conversationId: text("conversation_id")
+            .notNull()
+            .references(() => conversation.id, { onDelete: "cascade" }),
+        role: text("role").notNull(),
+        parts: jsonb("parts").notNull(),
+        metadata: jsonb("metadata"),
+        position: integer("position").notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [primaryKey({ columns: [table.conversationId, table.id] })],
+);
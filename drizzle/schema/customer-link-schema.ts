@@ -0,0 +1,47 @@
+import {
+    index,
+    pgTable,
+    serial,
+    text,
+    timestamp,
+    uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+import { user } from "./auth-schema";
+
+export const CUSTOMER_LINK_STATUSES = [
+    "pending",
+    "approved",
+    "rejected",
+] as const;
+
+export type CustomerLinkStatus = (typeof CUSTOMER_LINK_STATUSES)[number];
+
+// Links a login to the invoice customer(s) it may see. Only `approved`
+// links are used to scope the "my" tools.
+export const userCustomerLink = pgTable(
+    "user_customer_link",
+    {
+        id: serial("id").primaryKey(),
+        userId: text("user_id")
+            .notNull()
+            .references(() => user.id, { onDelete: "cascade" }),
+        billToPartyCode: text("bill_to_party_code").notNull(),
+        status: text("status")
+            .$type<CustomerLinkStatus>()
+            .default("pending")
+            .notNull(),
+        requestedAt: timestamp("requested_at").defaultNow().notNull(),
+        reviewedAt: timestamp("reviewed_at"),
+        reviewedBy: text("reviewed_by").references(() => user.id, {
+            onDelete: "set null",
+        }),
+    },
+    (table) => [
+        index("user_customer_link_userId_idx").on(table.userId),
+        uniqueIndex("user_customer_link_user_code_idx").on(
+            table.userId,
+            table.billToPartyCode,
+        ),
+    ],
+);
@@ -0,0 +1,40 @@
+import {
+    integer,
+    numeric,
+    pgTable,
+    serial,
+    text,
+    timestamp,
+} from "drizzle-orm/pg-core";
+
+export const ABC_CLASSES = ["A", "B", "C"] as const;
+export const XYZ_CLASSES = ["X", "Y", "Z"] as const;
+
+export type AbcClass = (typeof ABC_CLASSES)[number];
+export type XyzClass = (typeof XYZ_CLASSES)[number];
+
+// ABC (share of revenue) x XYZ (demand variability) class per material with
+// sales in the classification window. Every row of a run shares one
+// `computedAt`; the table is replaced on each recompute.
+export const materialClassification = pgTable("material_classification", {
+    material: text("material").primaryKey(),
+    abcClass: text("abc_class").$type<AbcClass>().notNull(),
+    xyzClass: text("xyz_class").$type<XyzClass>().notNull(),
+    revenue: numeric("revenue").notNull(),
+    revenueShare: numeric("revenue_share").notNull(), // Percent
+    cumulativeShare: numeric("cumulative_share").notNull(), // Percent
+    // Null when the material had no net quantity to measure variability on
+    coefficientOfVariation: numeric("coefficient_of_variation"),
+    computedAt: timestamp("computed_at").notNull(),
+});
+
+// One row per completed recompute, so freshness is known even when a run
+// classified no materials
+export const materialClassificationRun = pgTable(
+    "material_classification_run",
+    {
+        id: serial("id").primaryKey(),
+        computedAt: timestamp("computed_at").notNull(),
+        materialsClassified: integer("materials_classified").notNull(),
+    },
+);
@@ -0,0 +1,54 @@
+import {
+    index,
+    integer,
+    numeric,
+    pgTable,
+    serial,
+    text,
+    timestamp,
+} from "drizzle-orm/pg-core";
+
+import { user } from "./auth-schema";
+
+export const PURCHASE_SUGGESTION_GROUPINGS = ["bookName", "fabricType"] as const;
+
+export type PurchaseSuggestionGrouping =
+    (typeof PURCHASE_SUGGESTION_GROUPINGS)[number];
+
+// A generated purchase list kept for planners to review and export. Lines
+// snapshot the stock and demand figures used so a draft does not change when
+// stock is reimported.
+export const purchaseSuggestionDraft = pgTable("purchase_suggestion_draft", {
+    id: serial("id").primaryKey(),
+    createdBy: text("created_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    targetCoverageMonths: numeric("target_coverage_months").notNull(),
+    groupBy: text("group_by").$type<PurchaseSuggestionGrouping>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const purchaseSuggestionLine = pgTable(
+    "purchase_suggestion_line",
+    {
+        id: serial("id").primaryKey(),
+        draftId: integer("draft_id")
+            .notNull()
+            .references(() => purchaseSuggestionDraft.id, {
+                onDelete: "cascade",
+            }),
+        groupName: text("group_name").notNull(),
+        material: text("material").notNull(),
+        description: text("description"),
+        bookName: text("book_name"),
+        fabricType: text("fabric_type"),
+        currentStock: numeric("current_stock").notNull(),
+        monthlyVelocity: numeric("monthly_velocity").notNull(),
+        leadTimeDays: integer("lead_time_days").notNull(),
+        targetStock: numeric("target_stock").notNull(),
+        suggestedQuantity: numeric("suggested_quantity").notNull(),
+        basicPrice: numeric("basic_price"),
+        estimatedValue: numeric("estimated_value"),
+    },
+    (table) => [index("purchase_suggestion_line_draftId_idx").on(table.draftId)],
+);
@@ -0,0 +1,25 @@
+import {
+    integer,
+    numeric,
+    pgTable,
+    text,
+    timestamp,
+} from "drizzle-orm/pg-core";
+
+import { stock } from "./stock-schema";
+
+// Reorder point and safety stock per material, recalculated from recent
+// demand. `serviceLevel` is kept between recalculations so a material can be
+// given a higher target than the default.
+export const reorderPolicy = pgTable("reorder_policy", {
+    material: text("material")
+        .primaryKey()
+        .references(() => stock.material, { onDelete: "cascade" }),
+    serviceLevel: numeric("service_level").notNull(), // Percent, e.g. 95
+    leadTimeDays: integer("lead_time_days").notNull(),
+    averageDailyDemand: numeric("average_daily_demand").notNull(),
+    dailyDemandStdDev: numeric("daily_demand_std_dev").notNull(),
+    safetyStock: numeric("safety_stock").notNull(),
+    reorderPoint: numeric("reorder_point").notNull(),
+    calculatedAt: timestamp("calculated_at").defaultNow().notNull(),
+});
@@ -1,3 +1,8 @@
 export * from "./auth-schema";
 export * from "./stock-schema";
 export * from "./invoice-schema";
+export * from "./customer-link-schema";
+export * from "./chat-schema";
+export * from "./reorder-policy-schema";
+export * from "./purchase-suggestion-schema";
+export * from "./material-classification-schema";
@@ -0,0 +1,127 @@
+import { asc, eq } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { user } from "@/drizzle/schema/auth-schema";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import type { UserRole } from "./roles";
+
+// =========
+// Admin user management
+// =========
+
+export async function listUsers() {
+    return await db
+        .select({
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            role: user.role,
+            agentCode: user.agentCode,
+            brokerCode: user.brokerCode,
+            createdAt: user.createdAt,
+        })
+        .from(user)
+        .orderBy(asc(user.email));
+}
+
+async function agentCodeExists(agentCode: string) {
+    const [row] = await db
+        .select({ agentCode: invoice.agentCode })
+        .from(invoice)
+        .where(eq(invoice.agentCode, agentCode))
+        .limit(1);
+
+    return Boolean(row);
+}
+
+async function brokerCodeExists(brokerCode: string) {
+    const [row] = await db
+        .select({ brokerCode: invoice.brokerCode })
+        .from(invoice)
+        .where(eq(invoice.brokerCode, brokerCode))
+        .limit(1);
+
+    return Boolean(row);
+}
+
+function resolveCode(
+    next: string | null | undefined,
+    current: string | null,
+) {
+    return next !== undefined ? next?.trim() || null : current;
+}
+
+/**
+ * Update a user's role and/or agent/broker code. Agents and brokers must
+ * always end up with a code that exists on invoices, otherwise their tools
+ * see nothing.
+ */
+export async function updateUser(params: {
+    userId: string;
+    role?: UserRole;
+    agentCode?: string | null;
+    brokerCode?: string | null;
+}) {
+    const [existing] = await db
+        .select({
+            role: user.role,
+            agentCode: user.agentCode,
+            brokerCode: user.brokerCode,
+        })
+        .from(user)
+        .where(eq(user.id, params.userId))
+        .limit(1);
+
+    if (!existing) return null;
+
+    const role = params.role ?? existing.role;
+    const agentCode = resolveCode(params.agentCode, existing.agentCode);
+    const brokerCode = resolveCode(params.brokerCode, existing.brokerCode);
+
+    if (role === "agent" && !agentCode) {
+        return {
+            success: false,
+            error: "An agent code is required for the agent role",
+            data: null,
+        };
+    }
+
+    if (role === "broker" && !brokerCode) {
+        return {
+            success: false,
+            error: "A broker code is required for the broker role",
+            data: null,
+        };
+    }
+
+    if (agentCode && !(await agentCodeExists(agentCode))) {
+        return {
+            success: false,
+            error: `No agent found with code: ${agentCode}`,
+            data: null,
+        };
+    }
+
+    if (brokerCode && !(await brokerCodeExists(brokerCode))) {
+        return {
+            success: false,
+            error: `No broker found with code: ${brokerCode}`,
+            data: null,
+        };
+    }
+
+    const [row] = await db
+        .update(user)
+        .set({ role, agentCode, brokerCode })
+        .where(eq(user.id, params.userId))
+        .returning({
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            role: user.role,
+            agentCode: user.agentCode,
+            brokerCode: user.brokerCode,
+        });
+
+    return { success: true, data: row };
+}
@@ -0,0 +1,260 @@
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { getChurnRiskCustomers } from "./churnRisk";
+import { getRevenueByRegion, getTopCustomersByRevenue } from "./invoiceTools";
+import { getInactiveCustomers } from "./salesAnalysisTools";
+import { type PeriodInput, resolveDateRange } from "./periods";
+import { getSessionUser } from "./session";
+
+type DateInput = string | Date;
+
+// =========
+// Auth Helper
+// =========
+
+export type AuthenticatedAgent = {
+    id: string;
+    name: string;
+    agentCode: string;
+};
+
+export type AgentAuthResult =
+    | { authenticated: true; agent: AuthenticatedAgent }
+    | { authenticated: false; error: string };
+
+/**
+ * Get the authenticated sales agent from the request headers.
+ * Only users with the "agent" role and an admin-assigned agentCode pass.
+ */
+export async function getAuthenticatedAgent(): Promise<AgentAuthResult> {
+    try {
+        const sessionUser = await getSessionUser(await headers());
+
+        if (!sessionUser) {
+            return {
+                authenticated: false,
+                error:
+                    "You must be logged in to use this feature. Please sign in first.",
+            };
+        }
+
+        if (sessionUser.role !== "agent" || !sessionUser.agentCode) {
+            return {
+                authenticated: false,
+                error:
+                    "Your account is not set up as a sales agent. Please ask an admin to assign your agent code.",
+            };
+        }
+
+        return {
+            authenticated: true,
+            agent: {
+                id: sessionUser.id,
+                name: sessionUser.name,
+                agentCode: sessionUser.agentCode,
+            },
+        };
+    } catch {
+        return {
+            authenticated: false,
+            error: "Authentication failed. Please sign in again.",
+        };
+    }
+}
+
+// =========
+// Agent Tools - Scoped to authenticated agent's agentCode
+// =========
+
+/**
+ * Get the agent's top customers by revenue.
+ * Automatically scoped to invoices billed through the agent's agentCode.
+ */
+export async function getMyTopCustomers(params: {
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+    limit?: number;
+}) {
+    const authResult = await getAuthenticatedAgent();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { agent } = authResult;
+    const rows = await getTopCustomersByRevenue({
+        ...params,
+        agentCode: agent.agentCode,
+    });
+
+    return {
+        success: true,
+        agent: { name: agent.name, agentCode: agent.agentCode },
+        data: rows,
+    };
+}
+
+/**
+ * Get the agent's customers who were active but haven't ordered in N months.
+ */
+export async function getMyInactiveCustomers(params: {
+    monthsInactive: number;
+}) {
+    const authResult = await getAuthenticatedAgent();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { agent } = authResult;
+    const rows = await getInactiveCustomers({
+        monthsInactive: params.monthsInactive,
+        agentCode: agent.agentCode,
+    });
+
+    return {
+        success: true,
+        agent: { name: agent.name, agentCode: agent.agentCode },
+        data: rows,
+    };
+}
+
+/**
+ * Get the agent's customers at risk of churning, highest risk first.
+ * Customers belong to the agent on their most recent invoice.
+ */
+export async function getMyChurnRiskCustomers(params: {
+    minRiskScore?: number;
+    limit?: number;
+}) {
+    const authResult = await getAuthenticatedAgent();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { agent } = authResult;
+    const { customers } = await getChurnRiskCustomers({
+        ...params,
+        agentCode: agent.agentCode,
+    });
+
+    return {
+        success: true,
+        agent: { name: agent.name, agentCode: agent.agentCode },
+        data: customers,
+    };
+}
+
+/**
+ * Get the agent's revenue per region/zone.
+ */
+export async function getMyRegionRevenue(params: {
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+}) {
+    const authResult = await getAuthenticatedAgent();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { agent } = authResult;
+    const rows = await getRevenueByRegion({
+        ...params,
+        agentCode: agent.agentCode,
+    });
+
+    return {
+        success: true,
+        agent: { name: agent.name, agentCode: agent.agentCode },
+        data: rows,
+    };
+}
+
+/**
+ * Get the agent's commission totals and a month-by-month breakdown.
+ */
+export async function getMyCommission(params: {
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+}) {
+    const authResult = await getAuthenticatedAgent();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { agent } = authResult;
+    const filters = [eq(invoice.agentCode, agent.agentCode)];
+
+    const { fromDate, toDate } = resolveDateRange(params);
+
+    if (fromDate) {
+        filters.push(gte(invoice.invoiceDate, fromDate));
+    }
+
+    if (toDate) {
+        filters.push(lte(invoice.invoiceDate, toDate));
+    }
+
+    const where = and(...filters);
+
+    const [totals, monthly] = await Promise.all([
+        db
+            .select({
+                totalCommission: sql<
+                    number
+                >`coalesce(sum(${invoice.commission}), 0)`,
+                totalNetAmountInr: sql<
+                    number
+                >`coalesce(sum(${invoice.netAmountInr}), 0)`,
+                invoiceCount: sql<number>`count(*)`,
+            })
+            .from(invoice)
+            .where(where),
+        db
+            .select({
+                month: sql<
+                    string
+                >`to_char(${invoice.invoiceDate}::date, 'YYYY-MM')`,
+                commission: sql<
+                    number
+                >`coalesce(sum(${invoice.commission}), 0)`,
+                netAmountInr: sql<
+                    number
+                >`coalesce(sum(${invoice.netAmountInr}), 0)`,
+            })
+            .from(invoice)
+            .where(where)
+            .groupBy(sql`to_char(${invoice.invoiceDate}::date, 'YYYY-MM')`)
+            .orderBy(
+                desc(sql`to_char(${invoice.invoiceDate}::date, 'YYYY-MM')`),
+            ),
+    ]);
+
+    const [summary] = totals;
+    const netAmount = Number(summary.totalNetAmountInr);
+
+    return {
+        success: true,
+        agent: { name: agent.name, agentCode: agent.agentCode },
+        data: {
+            ...summary,
+            // Commission as a percentage of net sales
+            effectiveRatePercentage: netAmount === 0
+                ? 0
+                : parseFloat(
+                    ((Number(summary.totalCommission) / netAmount) * 100)
+                        .toFixed(2),
+                ),
+            monthly,
+        },
+    };
+}
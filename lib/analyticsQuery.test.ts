@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+// The module opens a connection pool on import; validation never uses it
+process.env.DATABASE_URL ??= "postgres://localhost/analytics_test";
+
+async function validate(query: string) {
+    const { validateAnalyticsQuery } = await import("./analyticsQuery");
+    return validateAnalyticsQuery(query, ["invoice"]);
+}
+
+test("rejects a table shadowed only by a CTE in a subquery", async () => {
+    const result = await validate(
+        `select * from (with "session" as (select 1 as token) select * from "session") a cross join "session"`,
+    );
+
+    assert.equal(result.success, false);
+});
+
+test("rejects a CTE body reading a real table under its own name", async () => {
+    const result = await validate(
+        `with account as (select * from account) select * from account`,
+    );
+
+    assert.equal(result.success, false);
+});
+
+test("accepts CTEs referenced in their own scope", async () => {
+    const result = await validate(
+        `with totals as (select material, sum(net_amount_inr) as revenue from invoice group by material)
+         select * from totals where revenue > (select avg(revenue) from totals)`,
+    );
+
+    assert.equal(result.success, true);
+});
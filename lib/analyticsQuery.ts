@@ -0,0 +1,396 @@
+import { eq, getTableColumns, inArray, type SQL, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+import { Parser } from "node-sql-parser";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { stock } from "@/drizzle/schema/stock-schema";
+import { getApprovedCustomerCodes } from "./customerLinks";
+import { getSessionUser } from "./session";
+
+// =========
+// Configuration
+// =========
+
+const PARSER_OPTIONS = { database: "PostgresQL" };
+
+const STATEMENT_TIMEOUT_MS = 5000;
+const DEFAULT_ROW_CAP = 200;
+const MAX_ROW_CAP = 1000;
+
+function columnNames(table: typeof invoice | typeof stock) {
+    return Object.values(getTableColumns(table)).map((column) => column.name);
+}
+
+// The only relations the model may read, keyed by their SQL name
+export const ANALYTICS_TABLES = {
+    invoice: columnNames(invoice),
+    stock: columnNames(stock),
+} as const;
+
+type AnalyticsTable = keyof typeof ANALYTICS_TABLES;
+
+// Functions that cannot execute SQL, touch the filesystem or sleep. Anything
+// else (query_to_xml, pg_read_file, dblink, set_config, ...) is rejected.
+const ALLOWED_FUNCTIONS = new Set([
+    // Aggregates
+    "count", "sum", "avg", "min", "max", "stddev", "stddev_pop",
+    "stddev_samp", "variance", "var_pop", "var_samp", "string_agg",
+    "array_agg", "bool_and", "bool_or", "percentile_cont", "percentile_disc",
+    "mode", "corr", "regr_slope", "regr_intercept",
+    // Window functions
+    "row_number", "rank", "dense_rank", "percent_rank", "cume_dist", "ntile",
+    "lag", "lead", "first_value", "last_value", "nth_value",
+    // Dates
+    "date_trunc", "date_part", "extract", "to_char", "to_date", "age",
+    "make_date", "now", "current_date",
+    // Numbers
+    "round", "trunc", "floor", "ceil", "ceiling", "abs", "sign", "mod",
+    "power", "sqrt", "ln", "log", "exp", "greatest", "least", "coalesce",
+    "nullif", "width_bucket",
+    // Text
+    "lower", "upper", "initcap", "trim", "btrim", "ltrim", "rtrim", "length",
+    "substring", "substr", "left", "right", "position", "replace",
+    "split_part", "concat", "concat_ws", "lpad", "rpad",
+]);
+
+// =========
+// Validation
+// =========
+
+type ValidationResult =
+    | { success: true; sql: string }
+    | { success: false; error: string };
+
+type AstNode = Record<string, unknown>;
+
+function walk(node: unknown, visit: (node: AstNode) => void) {
+    if (Array.isArray(node)) {
+        node.forEach((child) => walk(child, visit));
+        return;
+    }
+    if (typeof node !== "object" || node === null) return;
+
+    visit(node as AstNode);
+    Object.values(node).forEach((child) => walk(child, visit));
+}
+
+function functionName(node: AstNode): string | null {
+    if (node.type === "aggr_func" && typeof node.name === "string") {
+        return node.name.toLowerCase();
+    }
+    if (node.type !== "function") return null;
+
+    // { name: { name: [{ value: "pg_catalog" }, { value: "pg_sleep" }] } }
+    const parts = (node.name as { name?: { value: string }[] } | undefined)
+        ?.name;
+    return parts?.map((part) => part.value.toLowerCase()).join(".") ?? "";
+}
+
+type CteDefinition = {
+    name: { value: string };
+    stmt: unknown;
+    recursive?: boolean;
+};
+
+function findTableInScope(
+    node: unknown,
+    scope: ReadonlySet<string>,
+    allowedTables: ReadonlySet<string>,
+): string | null {
+    if (Array.isArray(node)) {
+        for (const child of node) {
+            const found = findTableInScope(child, scope, allowedTables);
+            if (found !== null) return found;
+        }
+        return null;
+    }
+    if (typeof node !== "object" || node === null) return null;
+
+    const current = node as AstNode;
+    if (current.type !== "select") {
+        return findTableInScope(Object.values(current), scope, allowedTables);
+    }
+
+    // A CTE is visible to the CTEs after it and to the body of its own
+    // SELECT (including UNION branches), but not to enclosing queries. Its
+    // own body only sees itself when it is recursive.
+    let visible = new Set(scope);
+    for (const cte of (current.with ?? []) as CteDefinition[]) {
+        const name = cte.name.value.toLowerCase();
+        const bodyScope = cte.recursive ? new Set([...visible, name]) : visible;
+        const found = findTableInScope(cte.stmt, bodyScope, allowedTables);
+        if (found !== null) return found;
+        visible = new Set([...visible, name]);
+    }
+
+    for (const entry of (current.from ?? []) as AstNode[]) {
+        if (typeof entry.table !== "string") continue;
+        const name = entry.table.toLowerCase();
+        if (!allowedTables.has(name) && !visible.has(name)) return entry.table;
+    }
+
+    const body = Object.entries(current)
+        .filter(([key]) => key !== "with")
+        .map(([, child]) => child);
+    return findTableInScope(body, visible, allowedTables);
+}
+
+/**
+ * Parse a model-written query and check it is a single SELECT that only
+ * reads allowlisted tables, columns and functions. Returns the query
+ * re-serialized from the parsed AST so that what runs is what was checked.
+ */
+export function validateAnalyticsQuery(
+    query: string,
+    allowedTables: readonly AnalyticsTable[],
+): ValidationResult {
+    const parser = new Parser();
+
+    let ast;
+    try {
+        ast = parser.astify(query, PARSER_OPTIONS);
+    } catch (error) {
+        return {
+            success: false,
+            error: `Could not parse the query: ${(error as Error).message}`,
+        };
+    }
+
+    const statements = Array.isArray(ast) ? ast : [ast];
+    if (statements.length !== 1) {
+        return { success: false, error: "Only a single statement is allowed." };
+    }
+    const [statement] = statements;
+    if (statement.type !== "select") {
+        return { success: false, error: "Only SELECT queries are allowed." };
+    }
+
+    // Names introduced by the query itself: CTEs and column/table aliases
+    const cteNames = new Set<string>();
+    const aliases = new Set<string>();
+    const functions = new Set<string>();
+
+    walk(statement, (node) => {
+        if (Array.isArray(node.with)) {
+            for (const cte of node.with as CteDefinition[]) {
+                cteNames.add(cte.name.value.toLowerCase());
+            }
+        }
+        if (typeof node.as === "string") {
+            aliases.add(node.as.toLowerCase());
+        }
+        const name = functionName(node);
+        if (name !== null) functions.add(name);
+    });
+
+    for (const name of functions) {
+        if (!ALLOWED_FUNCTIONS.has(name)) {
+            return {
+                success: false,
+                error: `Function "${name}" is not allowed.`,
+            };
+        }
+    }
+
+    const allowedTableNames = new Set<string>(allowedTables);
+    const tables = parser.tableList(query, PARSER_OPTIONS);
+
+    for (const entry of tables) {
+        const [type, schemaName, tableName] = entry.split("::");
+        if (type !== "select") {
+            return { success: false, error: "Only SELECT queries are allowed." };
+        }
+        if (schemaName !== "null") {
+            return {
+                success: false,
+                error:
+                    `Schema-qualified names are not allowed ("${schemaName}.${tableName}"). Use the bare table name.`,
+            };
+        }
+        const name = tableName.toLowerCase();
+        if (!allowedTableNames.has(name) && !cteNames.has(name)) {
+            return {
+                success: false,
+                error: `Table "${tableName}" is not allowed. Allowed tables: ${
+                    allowedTables.join(", ")
+                }.`,
+            };
+        }
+    }
+
+    // The list above ignores where each CTE is declared, so check again
+    // with CTE names only resolving inside their own query
+    const outOfScope = findTableInScope(
+        statement,
+        new Set(),
+        allowedTableNames,
+    );
+    if (outOfScope !== null) {
+        return {
+            success: false,
+            error: `Table "${outOfScope}" is not allowed. Allowed tables: ${
+                allowedTables.join(", ")
+            }.`,
+        };
+    }
+
+    const allowedColumns = new Set<string>(
+        allowedTables.flatMap((table) => ANALYTICS_TABLES[table]),
+    );
+    const columns = parser.columnList(query, PARSER_OPTIONS);
+
+    for (const entry of columns) {
+        const column = entry.split("::")[2].toLowerCase();
+        if (
+            column !== "(.*)" && !allowedColumns.has(column) &&
+            !aliases.has(column)
+        ) {
+            return {
+                success: false,
+                error: `Column "${column}" does not exist or is not allowed.`,
+            };
+        }
+    }
+
+    return { success: true, sql: parser.sqlify(statement, PARSER_OPTIONS) };
+}
+
+// =========
+// Session scoping
+// =========
+
+type QueryScope =
+    | { scoped: false }
+    | { scoped: true; filter: SQL };
+
+/**
+ * Work out which invoice rows the signed-in user may see. Admin and sales
+ * sessions are unrestricted; everyone else only sees their own book.
+ */
+async function getQueryScope(): Promise<
+    { success: true; scope: QueryScope } | { success: false; error: string }
+> {
+    const sessionUser = await getSessionUser(await headers());
+
+    if (!sessionUser) {
+        return {
+            success: false,
+            error:
+                "You must be logged in to use this feature. Please sign in first.",
+        };
+    }
+
+    switch (sessionUser.role) {
+        case "admin":
+        case "sales":
+            return { success: true, scope: { scoped: false } };
+        case "agent":
+            if (!sessionUser.agentCode) break;
+            return {
+                success: true,
+                scope: {
+                    scoped: true,
+                    filter: eq(invoice.agentCode, sessionUser.agentCode),
+                },
+            };
+        case "broker":
+            if (!sessionUser.brokerCode) break;
+            return {
+                success: true,
+                scope: {
+                    scoped: true,
+                    filter: eq(invoice.brokerCode, sessionUser.brokerCode),
+                },
+            };
+        case "customer": {
+            const codes = await getApprovedCustomerCodes(sessionUser.id);
+            if (codes.length === 0) break;
+            return {
+                success: true,
+                scope: {
+                    scoped: true,
+                    filter: inArray(invoice.billToPartyCode, codes),
+                },
+            };
+        }
+    }
+
+    return {
+        success: false,
+        error:
+            "Your account is not linked to any invoices yet, so there is no data to query.",
+    };
+}
+
+// =========
+// Analytics query tool
+// =========
+
+/**
+ * Run a model-written SELECT against `invoice` and `stock`.
+ * The query is validated, then executed in a read-only transaction with a
+ * statement timeout and a row cap. For scoped sessions `invoice` is shadowed
+ * by a CTE holding only the user's rows, and `stock` is not available.
+ */
+export async function runAnalyticsQuery(params: {
+    query: string;
+    maxRows?: number;
+}) {
+    const scopeResult = await getQueryScope();
+    if (!scopeResult.success) {
+        return { success: false, error: scopeResult.error, data: null };
+    }
+    const { scope } = scopeResult;
+
+    const allowedTables: AnalyticsTable[] = scope.scoped
+        ? ["invoice"]
+        : ["invoice", "stock"];
+
+    const validation = validateAnalyticsQuery(params.query, allowedTables);
+    if (!validation.success) {
+        return { success: false, error: validation.error, data: null };
+    }
+
+    const rowCap = params.maxRows && params.maxRows > 0
+        ? Math.min(params.maxRows, MAX_ROW_CAP)
+        : DEFAULT_ROW_CAP;
+
+    // Fetch one extra row so we can tell the model the result was truncated
+    const capped = sql`select * from (${
+        sql.raw(validation.sql)
+    }) as analytics_query limit ${rowCap + 1}`;
+
+    // Inside a non-recursive CTE its own name still resolves to the real
+    // table, so the validated query below only ever sees the filtered rows
+    const statement = scope.scoped
+        ? sql`with invoice as (select * from ${invoice} where ${scope.filter}) ${capped}`
+        : capped;
+
+    try {
+        const result = await db.transaction(async (tx) => {
+            await tx.execute(
+                sql.raw(`set local statement_timeout = ${STATEMENT_TIMEOUT_MS}`),
+            );
+            return tx.execute(statement);
+        }, { accessMode: "read only" });
+
+        const rows = result.rows.slice(0, rowCap);
+
+        return {
+            success: true,
+            query: validation.sql,
+            columns: result.fields.map((field) => field.name),
+            rowCount: rows.length,
+            truncated: result.rows.length > rowCap,
+            data: rows,
+        };
+    } catch (error) {
+        // Surface the database error so the model can fix its query
+        return {
+            success: false,
+            error: `Query failed: ${(error as Error).message}`,
+            data: null,
+        };
+    }
+}
@@ -1,6 +1,7 @@
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { db } from "@/drizzle/db";
+import { DEFAULT_USER_ROLE } from "./roles";
 
 export const auth = betterAuth({
     database: drizzleAdapter(db, {
@@ -9,6 +10,27 @@ export const auth = betterAuth({
     emailAndPassword: {
         enabled: true,
     },
+    user: {
+        additionalFields: {
+            // Only admins may change a role (see /api/admin/users), never the user at sign-up
+            role: {
+                type: "string",
+                required: false,
+                defaultValue: DEFAULT_USER_ROLE,
+                input: false,
+            },
+            agentCode: {
+                type: "string",
+                required: false,
+                input: false,
+            },
+            brokerCode: {
+                type: "string",
+                required: false,
+                input: false,
+            },
+        },
+    },
     trustedOrigins: [
         "https://stock-data-analyser-chatbot.vercel.app/",
         "https://www.stock-data-analyser-chatbot.vercel.app/",
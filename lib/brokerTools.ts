@@ -0,0 +1,227 @@
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { getBrokerCustomers } from "./invoiceTools";
+import { type PeriodInput, resolveDateRange } from "./periods";
+import { getSessionUser } from "./session";
+
+type DateInput = string | Date;
+
+type Pagination = {
+    limit?: number;
+    offset?: number;
+};
+
+function getSafePagination(pagination?: Pagination) {
+    const DEFAULT_LIMIT = 50;
+    const MAX_LIMIT = 200;
+
+    const limit = pagination?.limit && pagination.limit > 0
+        ? Math.min(pagination.limit, MAX_LIMIT)
+        : DEFAULT_LIMIT;
+
+    const offset = pagination?.offset && pagination.offset > 0
+        ? pagination.offset
+        : 0;
+
+    return { limit, offset };
+}
+
+// =========
+// Auth Helper
+// =========
+
+export type AuthenticatedBroker = {
+    id: string;
+    name: string;
+    brokerCode: string;
+};
+
+export type BrokerAuthResult =
+    | { authenticated: true; broker: AuthenticatedBroker }
+    | { authenticated: false; error: string };
+
+/**
+ * Get the authenticated broker from the request headers.
+ * Only users with the "broker" role and an admin-assigned brokerCode pass.
+ */
+export async function getAuthenticatedBroker(): Promise<BrokerAuthResult> {
+    try {
+        const sessionUser = await getSessionUser(await headers());
+
+        if (!sessionUser) {
+            return {
+                authenticated: false,
+                error:
+                    "You must be logged in to use this feature. Please sign in first.",
+            };
+        }
+
+        if (sessionUser.role !== "broker" || !sessionUser.brokerCode) {
+            return {
+                authenticated: false,
+                error:
+                    "Your account is not set up as a broker. Please ask an admin to assign your broker code.",
+            };
+        }
+
+        return {
+            authenticated: true,
+            broker: {
+                id: sessionUser.id,
+                name: sessionUser.name,
+                brokerCode: sessionUser.brokerCode,
+            },
+        };
+    } catch {
+        return {
+            authenticated: false,
+            error: "Authentication failed. Please sign in again.",
+        };
+    }
+}
+
+function buildBrokerFilters(
+    brokerCode: string,
+    params: {
+        fromDate?: DateInput | null;
+        toDate?: DateInput | null;
+        period?: PeriodInput | null;
+    },
+) {
+    const filters = [eq(invoice.brokerCode, brokerCode)];
+
+    const { fromDate, toDate } = resolveDateRange(params);
+
+    if (fromDate) {
+        filters.push(gte(invoice.invoiceDate, fromDate));
+    }
+
+    if (toDate) {
+        filters.push(lte(invoice.invoiceDate, toDate));
+    }
+
+    return and(...filters);
+}
+
+// =========
+// Broker Tools - Scoped to authenticated broker's brokerCode
+// =========
+
+/**
+ * List invoices routed through the broker, newest first.
+ */
+export async function getMyBrokerInvoices(
+    params: {
+        billToPartyCode?: string;
+        fromDate?: DateInput | null;
+        toDate?: DateInput | null;
+        period?: PeriodInput | null;
+    } & Pagination,
+) {
+    const authResult = await getAuthenticatedBroker();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { broker } = authResult;
+    const { limit, offset } = getSafePagination(params);
+
+    const rows = await db
+        .select()
+        .from(invoice)
+        .where(
+            and(
+                buildBrokerFilters(broker.brokerCode, params),
+                params.billToPartyCode
+                    ? eq(invoice.billToPartyCode, params.billToPartyCode)
+                    : undefined,
+            ),
+        )
+        .orderBy(desc(invoice.invoiceDate))
+        .limit(limit)
+        .offset(offset);
+
+    return {
+        success: true,
+        broker: { name: broker.name, brokerCode: broker.brokerCode },
+        invoiceCount: rows.length,
+        data: rows,
+    };
+}
+
+/**
+ * Summarize the broker's business (totals, customers, commission).
+ */
+export async function getMyBrokerSummary(params: {
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+}) {
+    const authResult = await getAuthenticatedBroker();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { broker } = authResult;
+
+    const [row] = await db
+        .select({
+            totalNetAmountInr: sql<
+                number
+            >`coalesce(sum(${invoice.netAmountInr}), 0)`,
+            totalGrossAmount: sql<
+                number
+            >`coalesce(sum(${invoice.grossAmount}), 0)`,
+            totalDiscountAmount: sql<
+                number
+            >`coalesce(sum(${invoice.discountAmount}), 0)`,
+            totalCommission: sql<
+                number
+            >`coalesce(sum(${invoice.commission}), 0)`,
+            customerCount: sql<
+                number
+            >`count(distinct ${invoice.billToPartyCode})`,
+            invoiceCount: sql<number>`count(*)`,
+        })
+        .from(invoice)
+        .where(buildBrokerFilters(broker.brokerCode, params));
+
+    return {
+        success: true,
+        broker: { name: broker.name, brokerCode: broker.brokerCode },
+        data: row,
+    };
+}
+
+/**
+ * List the customers whose invoices were routed through the broker.
+ */
+export async function getMyBrokerCustomers(params: {
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+    limit?: number;
+}) {
+    const authResult = await getAuthenticatedBroker();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { broker } = authResult;
+    const rows = await getBrokerCustomers({
+        ...params,
+        brokerCode: broker.brokerCode,
+    });
+
+    return {
+        success: true,
+        broker: { name: broker.name, brokerCode: broker.brokerCode },
+        data: rows,
+    };
+}
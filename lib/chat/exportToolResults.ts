@@ -0,0 +1,237 @@
+// Client-side export of the raw tool results behind an assistant answer.
+// Each tool call becomes its own sheet; the arguments go on a header sheet.
+// Outputs are written out in full rather than through the chat's table
+// extraction, which hides metadata and deeply nested values.
+
+import * as XLSX from "xlsx";
+import {
+    type DynamicToolUIPart,
+    getToolOrDynamicToolName,
+    isToolOrDynamicToolUIPart,
+    type ToolUIPart,
+    type UIMessage,
+} from "ai";
+
+export type ExportFormat = "xlsx" | "csv";
+
+export type ToolCallExport = {
+    toolName: string;
+    input: unknown;
+    output: unknown;
+};
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+const MAX_SHEET_NAME_LENGTH = 31;
+const INVALID_SHEET_CHARS = /[\\/?*[\]:]/g;
+
+type Cell = string | number | boolean | null;
+
+type RawTable = { title: string; rows: Record<string, Cell>[] };
+
+function isCompletedToolPart(
+    part: UIMessage["parts"][number],
+): part is ToolUIPart | DynamicToolUIPart {
+    return isToolOrDynamicToolUIPart(part) &&
+        part.state === "output-available";
+}
+
+/**
+ * Collect every completed tool call in a message, in call order.
+ */
+export function getToolCalls(message: UIMessage): ToolCallExport[] {
+    return message.parts.filter(isCompletedToolPart).map((part) => ({
+        toolName: getToolOrDynamicToolName(part),
+        input: part.input,
+        output: part.output,
+    }));
+}
+
+function toCell(value: unknown): Cell {
+    if (value === undefined) return null;
+    if (typeof value === "object" && value !== null) {
+        return JSON.stringify(value);
+    }
+    return value as Cell;
+}
+
+function sheetName(index: number, toolName: string, used: Set<string>) {
+    const base = `${index + 1} ${toolName}`
+        .replace(INVALID_SHEET_CHARS, "")
+        .slice(0, MAX_SHEET_NAME_LENGTH);
+
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+        const suffix = ` (${n})`;
+        name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name);
+    return name;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null &&
+        !Array.isArray(value);
+}
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+    return Array.isArray(value) && value.length > 0 &&
+        value.every(isPlainObject);
+}
+
+// Nested objects in a row become dotted columns; nested arrays stay as JSON
+function flattenRow(
+    value: Record<string, unknown>,
+    prefix = "",
+    row: Record<string, Cell> = {},
+) {
+    for (const [key, child] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (isPlainObject(child)) {
+            flattenRow(child, path, row);
+        } else {
+            row[path] = toCell(child);
+        }
+    }
+    return row;
+}
+
+// Every array of records becomes a table and every other value a field,
+// both keyed by their path in the output
+function collectRaw(
+    value: unknown,
+    path: string,
+    fields: [string, Cell][],
+    tables: RawTable[],
+) {
+    if (isRecordArray(value)) {
+        tables.push({
+            title: path || "result",
+            rows: value.map((item) => flattenRow(item)),
+        });
+    } else if (isPlainObject(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            collectRaw(child, path ? `${path}.${key}` : key, fields, tables);
+        }
+    } else {
+        fields.push([path || "value", toCell(value)]);
+    }
+}
+
+// Top-level fields first, then each table under its path, separated by a
+// blank row
+function outputToRows(output: unknown): Cell[][] {
+    const fields: [string, Cell][] = [];
+    const tables: RawTable[] = [];
+    collectRaw(output, "", fields, tables);
+
+    const rows: Cell[][] = [];
+
+    if (fields.length > 0) {
+        rows.push(["Field", "Value"], ...fields);
+    }
+
+    for (const table of tables) {
+        const columns = Array.from(
+            new Set(table.rows.flatMap((row) => Object.keys(row))),
+        );
+        if (rows.length > 0) rows.push([]);
+        rows.push([table.title]);
+        rows.push(columns);
+        for (const row of table.rows) {
+            rows.push(columns.map((key) => row[key] ?? null));
+        }
+    }
+
+    return rows;
+}
+
+function argumentRows(calls: ToolCallExport[]): Cell[][] {
+    const rows: Cell[][] = [["Call", "Tool", "Argument", "Value"]];
+
+    calls.forEach((call, i) => {
+        const entries = typeof call.input === "object" && call.input !== null
+            ? Object.entries(call.input)
+            : [];
+
+        if (entries.length === 0) {
+            rows.push([i + 1, call.toolName, null, null]);
+            return;
+        }
+        for (const [key, value] of entries) {
+            rows.push([i + 1, call.toolName, key, toCell(value)]);
+        }
+    });
+
+    return rows;
+}
+
+/**
+ * Build a workbook with an "Arguments" header sheet followed by one sheet
+ * per tool call.
+ */
+export function buildToolResultsWorkbook(calls: ToolCallExport[]) {
+    const workbook = XLSX.utils.book_new();
+    const used = new Set<string>(["Arguments"]);
+
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet(argumentRows(calls)),
+        "Arguments",
+    );
+
+    calls.forEach((call, i) => {
+        const rows = outputToRows(call.output);
+        XLSX.utils.book_append_sheet(
+            workbook,
+            XLSX.utils.aoa_to_sheet(rows.length > 0 ? rows : [["No data"]]),
+            sheetName(i, call.toolName, used),
+        );
+    });
+
+    return workbook;
+}
+
+// CSV has no sheets, so each call becomes a titled section in one file
+function buildToolResultsCsv(calls: ToolCallExport[]) {
+    const rows: Cell[][] = [];
+
+    calls.forEach((call, i) => {
+        if (i > 0) rows.push([]);
+        rows.push([`${i + 1}. ${call.toolName}`]);
+        rows.push(["Arguments", toCell(call.input ?? {})]);
+        rows.push([]);
+        rows.push(...outputToRows(call.output));
+    });
+
+    return XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(rows));
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Download the tool results of a message as an XLSX workbook or CSV file.
+ */
+export function exportToolResults(
+    calls: ToolCallExport[],
+    format: ExportFormat,
+    filename: string,
+) {
+    if (format === "csv") {
+        downloadBlob(
+            new Blob([buildToolResultsCsv(calls)], {
+                type: "text/csv;charset=utf-8",
+            }),
+            `${filename}.csv`,
+        );
+        return;
+    }
+
+    XLSX.writeFile(buildToolResultsWorkbook(calls), `${filename}.xlsx`);
+}
@@ -1,4 +1,4 @@
 // Chat module exports
-export { type ChatToolName, chatTools } from "./tools";
-export { SYSTEM_PROMPT } from "./systemPrompt";
+export { type ChatToolName, chatTools, getChatToolsForRole } from "./tools";
+export { getSystemPrompt } from "./systemPrompt";
 export * as schemas from "./schemas";
@@ -1,10 +1,56 @@
 import { z } from "zod";
 
+import { PERIOD_TYPES } from "@/lib/periods";
+
 // ========================
 // Reusable Schema Fragments
 // ========================
 
+export const periodObjectSchema = z
+    .object({
+        type: z
+            .enum(PERIOD_TYPES)
+            .describe(
+                "fiscal_year and fiscal_quarter follow the Indian April-March fiscal year; month is a calendar month; custom uses fromDate/toDate.",
+            ),
+        fiscalYear: z
+            .number()
+            .int()
+            .optional()
+            .describe(
+                "Fiscal year by its ending year: 2024 means FY2023-24 (1 Apr 2023 - 31 Mar 2024), also written FY24. Defaults to the current fiscal year.",
+            ),
+        quarter: z
+            .number()
+            .int()
+            .min(1)
+            .max(4)
+            .optional()
+            .describe(
+                "Fiscal quarter: 1 = Apr-Jun, 2 = Jul-Sep, 3 = Oct-Dec, 4 = Jan-Mar. Defaults to the current quarter.",
+            ),
+        month: z
+            .string()
+            .optional()
+            .describe("Calendar month (YYYY-MM) for type month."),
+        fromDate: z
+            .string()
+            .optional()
+            .describe("Start date (YYYY-MM-DD) for type custom."),
+        toDate: z
+            .string()
+            .optional()
+            .describe("End date (YYYY-MM-DD) for type custom."),
+    });
+
+export const periodSchema = periodObjectSchema
+    .optional()
+    .describe(
+        "Reporting period. Prefer this over fromDate/toDate for fiscal years, fiscal quarters and months; it overrides them when both are given.",
+    );
+
 export const dateRangeSchema = {
+    period: periodSchema,
     fromDate: z
         .string()
         .optional()
@@ -141,6 +187,25 @@ export const agentPerformanceSchema = z.object({
     ...dateRangeSchema,
 });
 
+export const brokerPerformanceSchema = z.object({
+    ...dateRangeSchema,
+});
+
+export const brokerCustomersSchema = z.object({
+    brokerCode: z
+        .string()
+        .optional()
+        .describe(
+            "Broker code to list customers for. Omit to map every broker to its customers.",
+        ),
+    ...dateRangeSchema,
+    limit: z
+        .number()
+        .int()
+        .optional()
+        .describe("Maximum number of rows to return (defaults to 50, max 200)."),
+});
+
 export const fabricPerformanceSchema = z.object({
     ...dateRangeSchema,
 });
@@ -149,6 +214,70 @@ export const patternPerformanceSchema = z.object({
     ...dateRangeSchema,
 });
 
+export const coPurchasePairsSchema = z.object({
+    ...dateRangeSchema,
+    itemType: z
+        .enum(["design", "material"])
+        .optional()
+        .describe("Analyse pairs of designs or of materials (default design)."),
+    item: z
+        .string()
+        .optional()
+        .describe(
+            "Only pairs containing this design or material, i.e. what sells with it.",
+        ),
+    regionZone: z
+        .string()
+        .optional()
+        .describe("Filter by region (partial match)."),
+    endUse: z
+        .string()
+        .optional()
+        .describe("Filter by end use (partial match)."),
+    minBaskets: z
+        .number()
+        .int()
+        .optional()
+        .describe(
+            "Minimum billing documents a pair must share (default 3).",
+        ),
+    sortBy: z
+        .enum(["lift", "support", "confidence"])
+        .optional()
+        .describe("Ranking metric (default lift)."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum pairs to return (default 50, max 200)."),
+});
+
+export const taxSummarySchema = z.object({
+    ...dateRangeSchema,
+});
+
+export const invoiceAnomaliesSchema = z.object({
+    ...dateRangeSchema,
+    types: z
+        .array(
+            z.enum([
+                "price_outlier",
+                "negative_quantity",
+                "duplicate_line",
+                "amount_mismatch",
+            ]),
+        )
+        .optional()
+        .describe("Checks to run (default all)."),
+    minSeverity: z
+        .enum(["high", "medium", "low"])
+        .optional()
+        .describe("Only return anomalies at or above this severity."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum anomalies to list (default 100)."),
+});
+
 export const invoicePdfLinkSchema = z.object({
     ...billingDocumentSchema,
 });
@@ -217,6 +346,85 @@ export const myMonthlyPurchaseTrendSchema = z.object({
         .describe("Number of months to look back (defaults to 12, max 24)."),
 });
 
+// ========================
+// Agent Tool Schemas
+// ========================
+
+export const myTopCustomersSchema = z.object({
+    ...dateRangeSchema,
+    limit: z
+        .number()
+        .int()
+        .optional()
+        .describe(
+            "Maximum number of customers to return (defaults to 20, max 100).",
+        ),
+});
+
+export const myInactiveCustomersSchema = z.object({
+    monthsInactive: z.number().describe("Months of inactivity."),
+});
+
+export const myChurnRiskCustomersSchema = z.object({
+    minRiskScore: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Minimum churn risk score, 0-100 (default 35 = medium)."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum customers to return (default 100)."),
+});
+
+export const myRegionRevenueSchema = z.object({
+    ...dateRangeSchema,
+});
+
+export const myCommissionSchema = z.object({
+    ...dateRangeSchema,
+});
+
+// ========================
+// Broker Tool Schemas
+// ========================
+
+export const myBrokerInvoicesSchema = z.object({
+    billToPartyCode: z
+        .string()
+        .optional()
+        .describe("Optional customer code to narrow the invoices."),
+    ...dateRangeSchema,
+    limit: z
+        .number()
+        .int()
+        .optional()
+        .describe(
+            "Maximum number of invoices to return (defaults to 50, max 200).",
+        ),
+    offset: z
+        .number()
+        .int()
+        .optional()
+        .describe("Number of invoices to skip for pagination (defaults to 0)."),
+});
+
+export const myBrokerSummarySchema = z.object({
+    ...dateRangeSchema,
+});
+
+export const myBrokerCustomersSchema = z.object({
+    ...dateRangeSchema,
+    limit: z
+        .number()
+        .int()
+        .optional()
+        .describe(
+            "Maximum number of customers to return (defaults to 50, max 200).",
+        ),
+});
+
 // ========================
 // Sales Analysis Schemas
 // ========================
@@ -226,16 +434,67 @@ export const quarterlyRevenueSchema = z.object({
         "List of regions to filter by.",
     ),
     years: z.number().optional().describe(
-        "Number of years to look back (default 2).",
+        "Number of fiscal years to include, counting the current one (default 2). Ignored when period is given.",
     ),
+    period: periodSchema,
 });
 
-export const customerGrowthSchema = z.object({
+export const growthSchema = z.object({
+    period: periodSchema.describe(
+        "Period to measure; it is compared with the same period one year earlier. Defaults to the trailing 12 months.",
+    ),
+});
+
+export const customerGrowthSchema = growthSchema.extend({
     limit: z.number().optional().describe(
         "Limit number of customers returned.",
     ),
 });
 
+export const periodOnlySchema = z.object({
+    period: periodSchema,
+});
+
+export const comparePeriodsSchema = z.object({
+    metric: z
+        .enum(["net_revenue", "quantity", "invoice_count", "discount"])
+        .describe("What to measure. invoice_count counts distinct billing documents."),
+    dimension: z
+        .enum([
+            "region",
+            "customer",
+            "agent",
+            "broker",
+            "design",
+            "end_use",
+            "city",
+        ])
+        .describe("What to break the metric down by."),
+    currentPeriod: periodObjectSchema.describe("The period being measured."),
+    previousPeriod: periodObjectSchema
+        .optional()
+        .describe(
+            "The period to compare against. Defaults to the same period one year earlier.",
+        ),
+    sortBy: z
+        .enum(["absolute_change", "percentage_change", "current_value"])
+        .optional()
+        .describe("How to rank members (default absolute_change)."),
+    sortOrder: z
+        .enum(["asc", "desc"])
+        .optional()
+        .describe("Use asc to find the biggest declines first (default desc)."),
+    limit: z
+        .number()
+        .int()
+        .optional()
+        .describe("Maximum members to return per list (default 20, max 200)."),
+    regionZone: z
+        .string()
+        .optional()
+        .describe("Optional region filter applied to both periods."),
+});
+
 export const cityAnalysisSchema = z.object({
     city: z.string().describe("City name to analyze."),
     type: z
@@ -246,12 +505,136 @@ export const cityAnalysisSchema = z.object({
             "top_shades",
         ])
         .describe("Type of analysis."),
+    period: periodSchema,
 });
 
 export const inactiveCustomersSchema = z.object({
     monthsInactive: z.number().describe("Months of inactivity."),
 });
 
+export const churnRiskCustomersSchema = myChurnRiskCustomersSchema.extend({
+    agentCode: z.string().optional().describe("Only this agent's customers."),
+    regionZone: z
+        .string()
+        .optional()
+        .describe("Filter by region (partial match)."),
+});
+
+export const customerSegmentsSchema = z.object({
+    segment: z
+        .enum([
+            "champions",
+            "loyal",
+            "new",
+            "promising",
+            "at_risk",
+            "hibernating",
+        ])
+        .optional()
+        .describe("Only list customers in this segment."),
+    regionZone: z
+        .string()
+        .optional()
+        .describe("Filter by region (partial match)."),
+    city: z.string().optional().describe("Filter by city (partial match)."),
+    agentCode: z
+        .string()
+        .optional()
+        .describe("Only customers billed through this agent code."),
+    asOfDate: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .optional()
+        .describe("Score as of this date (YYYY-MM-DD). Defaults to today."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum customers to list (default 50)."),
+});
+
+export const customerSegmentHistorySchema = z.object({
+    billToPartyCode: z.string().describe("Customer code."),
+    quarters: z
+        .number()
+        .int()
+        .optional()
+        .describe("Number of snapshots including today (default 8, max 16)."),
+});
+
+export const cohortRetentionSchema = z.object({
+    ...dateRangeSchema,
+    granularity: z
+        .enum(["month", "quarter"])
+        .optional()
+        .describe(
+            "Cohort and retention period: calendar month or fiscal quarter (default month).",
+        ),
+    periods: z
+        .number()
+        .int()
+        .optional()
+        .describe(
+            "Periods to follow each cohort (default 12 months / 8 quarters).",
+        ),
+    segmentBy: z
+        .enum(["region", "customer_group"])
+        .optional()
+        .describe(
+            "Split cohorts by the region zone or customer group of each customer's first invoice.",
+        ),
+});
+
+export const customerRecommendationsSchema = z.object({
+    billToPartyCode: z.string().describe("Customer code."),
+    minStock: z
+        .number()
+        .optional()
+        .describe(
+            "Only recommend materials with more stock than this in meters (default 0).",
+        ),
+    fabricType: z
+        .string()
+        .optional()
+        .describe("Only recommend materials of this fabric type."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum recommendations (default 20)."),
+});
+
+export const priceRealizationSchema = z.object({
+    ...dateRangeSchema,
+    material: z.string().optional().describe("Only this material."),
+    fabricType: z
+        .string()
+        .optional()
+        .describe("Filter by fabric type (partial match)."),
+    minQuantity: z
+        .number()
+        .optional()
+        .describe("Ignore materials that sold less than this quantity."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum materials to list (default 50)."),
+});
+
+export const discountLeakageSchema = z.object({
+    ...dateRangeSchema,
+    groupBy: z
+        .enum(["agent", "customer", "region", "customer_group"])
+        .describe("Dimension to break discount depth down by."),
+    regionZone: z
+        .string()
+        .optional()
+        .describe("Filter by region (partial match)."),
+    agentCode: z.string().optional().describe("Only this agent's invoices."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum groups to list (default 50)."),
+});
+
 export const stockSalesAnalysisSchema = z.object({
     type: z
         .enum([
@@ -261,7 +644,9 @@ export const stockSalesAnalysisSchema = z.object({
             "low_stock",
             "excess_stock",
         ])
-        .describe("Type of analysis."),
+        .describe(
+            "Type of analysis. low_stock means at or below the material's reorder point.",
+        ),
 });
 
 export const stockInfoSchema = z.object({
@@ -273,6 +658,7 @@ export const stockInfoSchema = z.object({
 
 export const topProductsSchema = z.object({
     limit: z.number().optional().describe("Limit results (default 10)."),
+    period: periodSchema,
 });
 
 // ========================
@@ -302,6 +688,134 @@ export const replenishmentReportSchema = z.object({
         ),
 });
 
+export const forecastMaterialDemandSchema = z.object({
+    materials: z
+        .array(z.string())
+        .min(1)
+        .max(20)
+        .describe("Material codes to forecast (up to 20)."),
+    horizonMonths: z
+        .number()
+        .int()
+        .optional()
+        .describe(
+            "Months to forecast, starting with the current month (default 6, max 12).",
+        ),
+    confidenceLevel: z
+        .union([z.literal(80), z.literal(90), z.literal(95)])
+        .optional()
+        .describe("Prediction interval width in percent (default 80)."),
+});
+
+export const itemsBelowReorderPointSchema = z.object({
+    fabricType: z
+        .string()
+        .optional()
+        .describe("Filter by fabric type (partial match)."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum items to return (default 50)."),
+});
+
+export const recalculateReorderPointsSchema = z.object({
+    materials: z
+        .array(z.string())
+        .optional()
+        .describe("Material codes to recalculate. Omit for all stock."),
+    serviceLevel: z
+        .union([
+            z.literal(80),
+            z.literal(85),
+            z.literal(90),
+            z.literal(95),
+            z.literal(98),
+            z.literal(99),
+        ])
+        .optional()
+        .describe(
+            "Target service level in percent for the selected materials. Omit to keep each material's current level (95 for new materials).",
+        ),
+});
+
+export const generatePurchaseSuggestionsSchema = z.object({
+    targetCoverageMonths: z
+        .number()
+        .positive()
+        .optional()
+        .describe(
+            "Months of demand the stock should cover once the order arrives (default 3).",
+        ),
+    groupBy: z
+        .enum(["bookName", "fabricType"])
+        .optional()
+        .describe("How to group the suggestions (default bookName)."),
+    bookName: z
+        .string()
+        .optional()
+        .describe("Only include materials from this book (partial match)."),
+    fabricType: z
+        .string()
+        .optional()
+        .describe("Only include this fabric type (partial match)."),
+});
+
+export const purchaseSuggestionDraftSchema = z.object({
+    draftId: z.number().int().describe("ID of the saved draft."),
+});
+
+export const listPurchaseSuggestionDraftsSchema = z.object({
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum drafts to return, newest first (default 10)."),
+});
+
+export const findSubstituteMaterialsSchema = z.object({
+    material: z.string().describe("Material code to find alternatives for."),
+    minStock: z
+        .number()
+        .optional()
+        .describe(
+            "Only suggest materials with more than this many meters in stock (default 0).",
+        ),
+    minSimilarity: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Minimum similarity score in percent (default 30)."),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum substitutes to return (default 10)."),
+});
+
+export const materialClassificationSchema = z.object({
+    abcClass: z
+        .enum(["A", "B", "C"])
+        .optional()
+        .describe(
+            "Filter materials by revenue class: A = top 80% of revenue, B = next 15%, C = the rest.",
+        ),
+    xyzClass: z
+        .enum(["X", "Y", "Z"])
+        .optional()
+        .describe(
+            "Filter materials by demand variability: X = steady, Y = variable, Z = erratic.",
+        ),
+    refresh: z
+        .boolean()
+        .optional()
+        .describe(
+            "Recompute from the latest invoices before answering. Admin only; the classification is otherwise refreshed automatically once it is a week old.",
+        ),
+    limit: z
+        .number()
+        .optional()
+        .describe("Maximum materials to list (default 50)."),
+});
+
 export const stockLeadTimeAnalysisSchema = z.object({
     minLeadTimeDays: z.number().optional().describe(
         "Minimum lead time in days to filter.",
@@ -351,5 +865,23 @@ export const excessStockReportSchema = z.object({
     limit: z.number().optional().describe("Limit results (default 20)."),
 });
 
+// ========================
+// Analytics Query Schemas
+// ========================
+
+export const runAnalyticsQuerySchema = z.object({
+    query: z
+        .string()
+        .min(1)
+        .describe(
+            "A single PostgreSQL SELECT statement using the snake_case column names of the invoice and stock tables.",
+        ),
+    maxRows: z
+        .number()
+        .int()
+        .optional()
+        .describe("Maximum number of rows to return (defaults to 200, max 1000)."),
+});
+
 // Empty schema for tools with no parameters
 export const emptySchema = z.object({});
@@ -0,0 +1,288 @@
+// Helpers to turn arbitrary tool results into tables and chart specs so the
+// chat UI can render them without knowing each tool's return shape.
+
+export type ToolTable = {
+    title: string | null;
+    columns: string[];
+    rows: Record<string, unknown>[];
+    // Percentage columns to shade as a heatmap instead of charting
+    heatmapColumns?: string[];
+};
+
+/**
+ * A matrix a tool wants shown as a heatmap, e.g. cohort retention. Values in
+ * `valueColumns` are percentages; rows may carry other label columns.
+ */
+export type HeatmapSpec = {
+    kind: "heatmap";
+    valueColumns: string[];
+    rows: Record<string, unknown>[];
+};
+
+export type ChartSpec = {
+    type: "line" | "bar";
+    xKey: string;
+    yKeys: string[];
+    data: Record<string, string | number | null>[];
+};
+
+// Envelope fields added by the scoped "my" tools; they are not data.
+const META_KEYS = new Set(["success", "user", "agent", "broker", "message"]);
+
+const MAX_COLUMN_SCAN_ROWS = 50;
+const MAX_BAR_ROWS = 25;
+const MAX_SERIES = 8;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null &&
+        !Array.isArray(value);
+}
+
+function isHeatmap(value: unknown): value is HeatmapSpec {
+    return isPlainObject(value) && value.kind === "heatmap" &&
+        Array.isArray(value.valueColumns) && Array.isArray(value.rows);
+}
+
+function isObjectArray(value: unknown): value is Record<string, unknown>[] {
+    return Array.isArray(value) && value.length > 0 &&
+        value.every(isPlainObject);
+}
+
+// Nested values cannot be shown in a grid cell, so flatten them to JSON
+function flattenRow(row: Record<string, unknown>) {
+    return Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [
+            key,
+            typeof value === "object" && value !== null
+                ? JSON.stringify(value)
+                : value,
+        ]),
+    );
+}
+
+function toTable(
+    title: string | null,
+    rows: Record<string, unknown>[],
+): ToolTable {
+    const flatRows = rows.map(flattenRow);
+    const columns = Array.from(
+        new Set(
+            flatRows.slice(0, MAX_COLUMN_SCAN_ROWS).flatMap((row) =>
+                Object.keys(row)
+            ),
+        ),
+    );
+
+    return { title, columns, rows: flatRows };
+}
+
+/**
+ * Parse a cell as a number. Postgres `numeric` and aggregates arrive as
+ * strings, so numeric-looking strings count too.
+ */
+export function toNumber(value: unknown): number | null {
+    if (typeof value === "number") return Number.isFinite(value) ? value : null;
+    if (typeof value !== "string" || value.trim() === "") return null;
+
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+}
+
+function collectTables(
+    value: unknown,
+    title: string | null,
+    depth: number,
+    tables: ToolTable[],
+) {
+    if (isHeatmap(value)) {
+        if (value.rows.length > 0) {
+            tables.push({
+                ...toTable(title, value.rows),
+                heatmapColumns: value.valueColumns,
+            });
+        }
+        return;
+    }
+
+    if (isObjectArray(value)) {
+        tables.push(toTable(title, value));
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        if (value.length > 0) {
+            tables.push(toTable(title, value.map((v) => ({ value: v }))));
+        }
+        return;
+    }
+
+    if (!isPlainObject(value) || depth > 2) return;
+
+    const scalars: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+        if (META_KEYS.has(key)) continue;
+
+        if (Array.isArray(child) || isPlainObject(child)) {
+            collectTables(child, key, depth + 1, tables);
+        } else {
+            scalars[key] = child;
+        }
+    }
+
+    // Top-level scalars (totals, counts, thresholds) become a one-row summary
+    if (Object.keys(scalars).length > 0) {
+        tables.unshift(toTable(title, [scalars]));
+    }
+}
+
+/**
+ * Extract every table-like structure from a tool result.
+ */
+export function extractTables(output: unknown): ToolTable[] {
+    const tables: ToolTable[] = [];
+    collectTables(output, null, 0, tables);
+    return tables;
+}
+
+/**
+ * Tools return `{ success: false, error }` when they refuse a request.
+ */
+export function getToolError(output: unknown): string | null {
+    if (
+        isPlainObject(output) && output.success === false &&
+        typeof output.error === "string"
+    ) {
+        return output.error;
+    }
+    return null;
+}
+
+// =========
+// Chart inference
+// =========
+
+const IDENTIFIER_KEY =
+    /(^id$|code$|^item$|^year$|^quarter$|^month$|^fiscalYear$|^fiscalQuarter$)/i;
+const TIME_KEY = /^(month|date|period|week|invoiceDate|fiscalQuarter)$/i;
+const TIME_VALUE = /^\d{4}-(\d{2}|Q[1-4])/;
+const PREFERRED_METRIC =
+    /revenue|amount|value|quantity|total|sold|spent|growth|commission/i;
+
+function isNumericColumn(table: ToolTable, key: string) {
+    if (IDENTIFIER_KEY.test(key)) return false;
+
+    const values = table.rows
+        .map((row) => row[key])
+        .filter((v) => v !== null && v !== undefined);
+    if (values.length === 0) return false;
+
+    const numeric = values.filter((v) => toNumber(v) !== null).length;
+    return numeric / values.length >= 0.8;
+}
+
+function isTimeColumn(table: ToolTable, key: string) {
+    if (TIME_KEY.test(key)) return true;
+    return table.rows.every((row) =>
+        typeof row[key] === "string" && TIME_VALUE.test(row[key] as string)
+    );
+}
+
+function pickMetrics(numericKeys: string[]) {
+    const preferred = numericKeys.filter((k) => PREFERRED_METRIC.test(k));
+    return (preferred.length > 0 ? preferred : numericKeys).slice(0, 2);
+}
+
+/**
+ * Choose a line chart for time series, a bar chart for a small set of
+ * categories, or nothing when the result has no obvious visual shape.
+ */
+export function inferChart(table: ToolTable): ChartSpec | null {
+    if (table.rows.length < 2 || table.heatmapColumns) return null;
+
+    let rows = table.rows;
+    let columns = table.columns;
+
+    // Calendar/fiscal quarter results come as separate year + quarter columns
+    if (columns.includes("year") && columns.includes("quarter")) {
+        rows = rows.map((row) => ({
+            ...row,
+            period: `${row.year}-Q${row.quarter}`,
+        }));
+        columns = ["period", ...columns];
+    }
+
+    const prepared: ToolTable = { ...table, rows, columns };
+    const numericKeys = columns.filter((k) => isNumericColumn(prepared, k));
+    if (numericKeys.length === 0) return null;
+
+    const categoryKeys = columns.filter((k) =>
+        !numericKeys.includes(k) &&
+        rows.some((row) => typeof row[k] === "string")
+    );
+    const timeKey = categoryKeys.find((k) => isTimeColumn(prepared, k));
+
+    if (timeKey) {
+        const metric = pickMetrics(numericKeys)[0];
+        const seriesKey = categoryKeys.find((k) => {
+            if (k === timeKey || k === "year" || k === "quarter") return false;
+            const distinct = new Set(rows.map((row) => row[k])).size;
+            return distinct > 1 && distinct <= MAX_SERIES;
+        });
+
+        // Several rows per period (e.g. one per region) become one series each
+        if (seriesKey) {
+            const byPeriod = new Map<string, Record<string, number | string>>();
+            const series = new Set<string>();
+            for (const row of rows) {
+                const x = String(row[timeKey]);
+                const name = String(row[seriesKey] ?? "Unknown");
+                series.add(name);
+                const point = byPeriod.get(x) ?? { [timeKey]: x };
+                point[name] = (Number(point[name]) || 0) +
+                    (toNumber(row[metric]) ?? 0);
+                byPeriod.set(x, point);
+            }
+            return {
+                type: "line",
+                xKey: timeKey,
+                yKeys: Array.from(series),
+                data: Array.from(byPeriod.values()).sort((a, b) =>
+                    String(a[timeKey]).localeCompare(String(b[timeKey]))
+                ),
+            };
+        }
+
+        const yKeys = pickMetrics(numericKeys);
+        return {
+            type: "line",
+            xKey: timeKey,
+            yKeys,
+            data: rows
+                .map((row) => ({
+                    [timeKey]: String(row[timeKey]),
+                    ...Object.fromEntries(
+                        yKeys.map((k) => [k, toNumber(row[k])]),
+                    ),
+                }))
+                .sort((a, b) =>
+                    String(a[timeKey]).localeCompare(String(b[timeKey]))
+                ),
+        };
+    }
+
+    // Prefer a readable name over a code for the axis labels
+    const categoryKey = categoryKeys.find((k) => !IDENTIFIER_KEY.test(k)) ??
+        categoryKeys[0];
+    if (!categoryKey || rows.length > MAX_BAR_ROWS) return null;
+
+    const yKeys = pickMetrics(numericKeys);
+    return {
+        type: "bar",
+        xKey: categoryKey,
+        yKeys,
+        data: rows.map((row) => ({
+            [categoryKey]: String(row[categoryKey] ?? "—"),
+            ...Object.fromEntries(yKeys.map((k) => [k, toNumber(row[k])])),
+        })),
+    };
+}
@@ -1,7 +1,10 @@
 import { z } from "zod";
 
 import {
+    comparePeriods,
+    findSubstituteMaterials,
     getAgentGrowth,
+    getBrokerGrowth,
     getCityAnalysis,
     getCustomerGrowth,
     getEndUseShare,
@@ -26,6 +29,9 @@ import {
 
 import {
     getAgentPerformance,
+    getBrokerCustomers,
+    getBrokerPerformance,
+    getCoPurchasePairs,
     getCustomerAmountSummary,
     getFabricPerformanceByEndUse,
     getInvoiceByBillingDocumentAndItem,
@@ -52,6 +58,48 @@ import {
     getMyRecentInvoices,
 } from "@/lib/userTools";
 
+import {
+    getMyChurnRiskCustomers,
+    getMyCommission,
+    getMyInactiveCustomers,
+    getMyRegionRevenue,
+    getMyTopCustomers,
+} from "@/lib/agentTools";
+
+import {
+    getMyBrokerCustomers,
+    getMyBrokerInvoices,
+    getMyBrokerSummary,
+} from "@/lib/brokerTools";
+
+import { ANALYTICS_TABLES, runAnalyticsQuery } from "@/lib/analyticsQuery";
+import {
+    getCustomerSegmentHistory,
+    getCustomerSegments,
+} from "@/lib/customerSegments";
+import { getChurnRiskCustomers } from "@/lib/churnRisk";
+import { getCohortRetention } from "@/lib/cohortAnalysis";
+import { getCustomerRecommendations } from "@/lib/recommendations";
+import { getTaxSummary } from "@/lib/taxReporting";
+import { scanInvoiceAnomalies } from "@/lib/invoiceAnomalies";
+import {
+    getDiscountLeakage,
+    getPriceRealization,
+} from "@/lib/pricingAnalysis";
+import { forecastMaterialDemand } from "@/lib/forecasting";
+import { getMaterialClassification } from "@/lib/materialClassification";
+import {
+    generatePurchaseSuggestions,
+    getPurchaseSuggestionDraft,
+    listPurchaseSuggestionDrafts,
+} from "@/lib/purchaseSuggestions";
+import {
+    getItemsBelowReorderPoint,
+    recalculateReorderPoints,
+} from "@/lib/reorderPoints";
+
+import type { UserRole } from "@/lib/roles";
+
 import * as schemas from "./schemas";
 
 // ========================
@@ -138,6 +186,24 @@ const invoiceTools = {
         ) => getAgentPerformance(input),
     },
 
+    getBrokerPerformance: {
+        description:
+            "Compute sales performance metrics per broker (revenue, customers and invoice count) for an optional date range. Only invoices routed through a broker are included.",
+        inputSchema: schemas.brokerPerformanceSchema,
+        execute: async (
+            input: z.infer<typeof schemas.brokerPerformanceSchema>,
+        ) => getBrokerPerformance(input),
+    },
+
+    getBrokerCustomers: {
+        description:
+            "Map brokers to the customers whose invoices were routed through them, with revenue and last invoice date. Optionally filter to one broker code.",
+        inputSchema: schemas.brokerCustomersSchema,
+        execute: async (
+            input: z.infer<typeof schemas.brokerCustomersSchema>,
+        ) => getBrokerCustomers(input),
+    },
+
     getFabricPerformanceByEndUse: {
         description:
             "Aggregate revenue and counts per fabric type / style / end use in an optional date range.",
@@ -156,6 +222,33 @@ const invoiceTools = {
         ) => getPatternPerformance(input),
     },
 
+    getTaxSummary: {
+        description:
+            "GST and TCS tax summary for compliance reporting, GSTR-1 style: monthly taxable value, GST, TCS and invoice value, broken down by place of supply (ship-to city), by billing type, and a documents-issued summary per document type with first/last document numbers. Defaults to the current fiscal year. Returns exportUrl to download the full summary as XLSX; share it as a markdown link.",
+        inputSchema: schemas.taxSummarySchema,
+        execute: async (
+            input: z.infer<typeof schemas.taxSummarySchema>,
+        ) => getTaxSummary(input),
+    },
+
+    scanInvoiceAnomalies: {
+        description:
+            "Scan invoice lines for anomalies: unit prices far from the material's median price, negative quantities, duplicate billing document + item pairs, and net amounts that do not equal price x quantity - discount. The price and amount checks cover INR documents only. Each flag has a severity (high/medium/low) and a reason. Defaults to the last 90 days. The full report is also available at /dashboard/anomalies for admins.",
+        inputSchema: schemas.invoiceAnomaliesSchema,
+        execute: async (
+            input: z.infer<typeof schemas.invoiceAnomaliesSchema>,
+        ) => scanInvoiceAnomalies(input),
+    },
+
+    getCoPurchasePairs: {
+        description:
+            "Market basket analysis: designs or materials bought together on the same billing document, with support (share of all documents), confidence (share of documents with one item that also have the other) and lift (>1 means bought together more than chance). Filter by region, end use, date range or one item to see what sells with it. Use it to plan bundles and sample books.",
+        inputSchema: schemas.coPurchasePairsSchema,
+        execute: async (
+            input: z.infer<typeof schemas.coPurchasePairsSchema>,
+        ) => getCoPurchasePairs(input),
+    },
+
     listCustomerDistinctValues: {
         description:
             "List distinct bill-to customers (code + name) and bill-to cities to help the model choose valid values.",
@@ -256,6 +349,86 @@ const userTools = {
     },
 };
 
+// ========================
+// Agent Tools (Agent Role Required)
+// ========================
+
+const agentTools = {
+    getMyTopCustomers: {
+        description:
+            "Get the authenticated sales agent's top customers by revenue in an optional date range. Only includes invoices billed through the agent's own agent code.",
+        inputSchema: schemas.myTopCustomersSchema,
+        execute: async (input: z.infer<typeof schemas.myTopCustomersSchema>) =>
+            getMyTopCustomers(input),
+    },
+
+    getMyInactiveCustomers: {
+        description:
+            "Get the authenticated sales agent's customers who were active but haven't ordered in the last N months.",
+        inputSchema: schemas.myInactiveCustomersSchema,
+        execute: async (
+            input: z.infer<typeof schemas.myInactiveCustomersSchema>,
+        ) => getMyInactiveCustomers(input),
+    },
+
+    getMyChurnRiskCustomers: {
+        description:
+            "Get the authenticated sales agent's customers at risk of churning, with a 0-100 risk score and the reasons (overdue versus their usual order interval, falling order value, fewer materials bought).",
+        inputSchema: schemas.myChurnRiskCustomersSchema,
+        execute: async (
+            input: z.infer<typeof schemas.myChurnRiskCustomersSchema>,
+        ) => getMyChurnRiskCustomers(input),
+    },
+
+    getMyRegionRevenue: {
+        description:
+            "Get the authenticated sales agent's revenue and invoice counts per region/zone in an optional date range.",
+        inputSchema: schemas.myRegionRevenueSchema,
+        execute: async (input: z.infer<typeof schemas.myRegionRevenueSchema>) =>
+            getMyRegionRevenue(input),
+    },
+
+    getMyCommission: {
+        description:
+            "Get the authenticated sales agent's commission totals, effective commission rate and monthly breakdown in an optional date range.",
+        inputSchema: schemas.myCommissionSchema,
+        execute: async (input: z.infer<typeof schemas.myCommissionSchema>) =>
+            getMyCommission(input),
+    },
+};
+
+// ========================
+// Broker Tools (Broker Role Required)
+// ========================
+
+const brokerTools = {
+    getMyBrokerInvoices: {
+        description:
+            "List invoices routed through the authenticated broker, newest first, with optional customer and date filters. Only returns invoices carrying the broker's own broker code.",
+        inputSchema: schemas.myBrokerInvoicesSchema,
+        execute: async (
+            input: z.infer<typeof schemas.myBrokerInvoicesSchema>,
+        ) => getMyBrokerInvoices(input),
+    },
+
+    getMyBrokerSummary: {
+        description:
+            "Summarize the authenticated broker's business (net and gross revenue, discounts, commission, customer and invoice counts) in an optional date range.",
+        inputSchema: schemas.myBrokerSummarySchema,
+        execute: async (input: z.infer<typeof schemas.myBrokerSummarySchema>) =>
+            getMyBrokerSummary(input),
+    },
+
+    getMyBrokerCustomers: {
+        description:
+            "List the customers whose invoices were routed through the authenticated broker, with revenue and last invoice date.",
+        inputSchema: schemas.myBrokerCustomersSchema,
+        execute: async (
+            input: z.infer<typeof schemas.myBrokerCustomersSchema>,
+        ) => getMyBrokerCustomers(input),
+    },
+};
+
 // ========================
 // Sales Analysis Tools
 // ========================
@@ -263,22 +436,32 @@ const userTools = {
 const salesAnalysisTools = {
     getQuarterlyRevenue: {
         description:
-            "Get quarterly revenue for regions (e.g. US, UK, EU) for the last N years.",
+            "Get revenue per Indian fiscal quarter (Q1 = Apr-Jun) and region for the last N fiscal years or a given period.",
         inputSchema: schemas.quarterlyRevenueSchema,
         execute: async (
             input: z.infer<typeof schemas.quarterlyRevenueSchema>,
         ) => getQuarterlyRevenue(input),
     },
 
+    comparePeriods: {
+        description:
+            "Compare net revenue, quantity, invoice count or discount between two periods per region, customer, agent, broker, design, end use or city. Returns absolute and percentage change per member, totals, and the members that are new or lost in the current period.",
+        inputSchema: schemas.comparePeriodsSchema,
+        execute: async (input: z.infer<typeof schemas.comparePeriodsSchema>) =>
+            comparePeriods(input),
+    },
+
     getRegionGrowth: {
-        description: "Get region growth percentage (year over year).",
-        inputSchema: schemas.emptySchema,
-        execute: async () => getRegionGrowth(),
+        description:
+            "Get region growth percentage (year over year) for a period versus the same period a year earlier.",
+        inputSchema: schemas.growthSchema,
+        execute: async (input: z.infer<typeof schemas.growthSchema>) =>
+            getRegionGrowth(input),
     },
 
     getCustomerGrowth: {
         description:
-            "Get customer growth percentage and absolute growth (year over year).",
+            "Get customer growth percentage and absolute growth (year over year) for a period versus the same period a year earlier.",
         inputSchema: schemas.customerGrowthSchema,
         execute: async (input: z.infer<typeof schemas.customerGrowthSchema>) =>
             getCustomerGrowth(input),
@@ -294,15 +477,26 @@ const salesAnalysisTools = {
 
     getEndUseShare: {
         description:
-            "Get revenue share by end use (e.g. Curtains, Upholstery).",
-        inputSchema: schemas.emptySchema,
-        execute: async () => getEndUseShare(),
+            "Get revenue share by end use (e.g. Curtains, Upholstery), optionally for a period.",
+        inputSchema: schemas.periodOnlySchema,
+        execute: async (input: z.infer<typeof schemas.periodOnlySchema>) =>
+            getEndUseShare(input),
     },
 
     getAgentGrowth: {
-        description: "Get agent growth in revenue (year over year).",
-        inputSchema: schemas.emptySchema,
-        execute: async () => getAgentGrowth(),
+        description:
+            "Get agent growth in revenue (year over year) for a period versus the same period a year earlier.",
+        inputSchema: schemas.growthSchema,
+        execute: async (input: z.infer<typeof schemas.growthSchema>) =>
+            getAgentGrowth(input),
+    },
+
+    getBrokerGrowth: {
+        description:
+            "Get broker growth in revenue (year over year), absolute and percentage, for a period versus the same period a year earlier.",
+        inputSchema: schemas.growthSchema,
+        execute: async (input: z.infer<typeof schemas.growthSchema>) =>
+            getBrokerGrowth(input),
     },
 
     getInactiveCustomers: {
@@ -314,9 +508,72 @@ const salesAnalysisTools = {
         ) => getInactiveCustomers(input),
     },
 
+    getChurnRiskCustomers: {
+        description:
+            "Score customers who are still ordering for churn risk (0-100) from three signals against their own history: how overdue they are versus their typical order interval, order value decline and a narrowing product mix over the last 6 months. Returns a summary per agent and the at-risk customers grouped by agent, each with the reasons behind the score.",
+        inputSchema: schemas.churnRiskCustomersSchema,
+        execute: async (
+            input: z.infer<typeof schemas.churnRiskCustomersSchema>,
+        ) => getChurnRiskCustomers(input),
+    },
+
+    getCustomerSegments: {
+        description:
+            "Segment customers by recency, frequency and monetary value (RFM) into champions, loyal, new, promising, at_risk and hibernating. Returns the customer count and 12-month revenue per segment plus the customers, filterable by segment, region, city and agent.",
+        inputSchema: schemas.customerSegmentsSchema,
+        execute: async (
+            input: z.infer<typeof schemas.customerSegmentsSchema>,
+        ) => getCustomerSegments(input),
+    },
+
+    getCustomerSegmentHistory: {
+        description:
+            "Show how a customer's RFM segment changed over time, as of the end of each recent fiscal quarter and today.",
+        inputSchema: schemas.customerSegmentHistorySchema,
+        execute: async (
+            input: z.infer<typeof schemas.customerSegmentHistorySchema>,
+        ) => getCustomerSegmentHistory(input),
+    },
+
+    getPriceRealization: {
+        description:
+            "Price realization per material: realized price per unit (net amount / quantity) against the stock list price, as a realization percentage and the revenue gap to list. Lowest realization first; materials with unusually low or high realization are flagged as outliers. Covers INR documents only.",
+        inputSchema: schemas.priceRealizationSchema,
+        execute: async (
+            input: z.infer<typeof schemas.priceRealizationSchema>,
+        ) => getPriceRealization(input),
+    },
+
+    getDiscountLeakage: {
+        description:
+            "Discount leakage: discount depth (discount as % of pre-discount value) by agent, customer, region or customer group, with each group's share of all discounts, outlier flags for unusually deep or shallow discounting and a monthly depth trend for the groups giving the most discount. Covers INR documents only.",
+        inputSchema: schemas.discountLeakageSchema,
+        execute: async (
+            input: z.infer<typeof schemas.discountLeakageSchema>,
+        ) => getDiscountLeakage(input),
+    },
+
+    getCustomerRecommendations: {
+        description:
+            "Recommend what to pitch to a customer: in-stock materials they have never bought, scored by how many similar customers (same city, same customer group, same end use) bought them in the last 2 years and whether they match the customer's usual fabric types. Each recommendation comes with a reason.",
+        inputSchema: schemas.customerRecommendationsSchema,
+        execute: async (
+            input: z.infer<typeof schemas.customerRecommendationsSchema>,
+        ) => getCustomerRecommendations(input),
+    },
+
+    getCohortRetention: {
+        description:
+            "Cohort retention analysis: group customers by the month or fiscal quarter of their first invoice and show, for each later period, the percentage still buying (customer retention) and their revenue as a percentage of the first period (revenue retention). The period or date range selects cohorts by first invoice date (default: the last 12 months / 8 quarters). Optionally split by region zone or customer group. Results render as heatmap tables.",
+        inputSchema: schemas.cohortRetentionSchema,
+        execute: async (
+            input: z.infer<typeof schemas.cohortRetentionSchema>,
+        ) => getCohortRetention(input),
+    },
+
     getStockSalesAnalysis: {
         description:
-            "Analyze stock vs sales: find high sales with zero stock, out of stock items, likely to stock out, or low stock.",
+            "Analyze stock vs sales: find high sales with zero stock, out of stock items, likely to stock out, or low stock. Use findSubstituteMaterials to suggest alternatives for items with no stock.",
         inputSchema: schemas.stockSalesAnalysisSchema,
         execute: async (
             input: z.infer<typeof schemas.stockSalesAnalysisSchema>,
@@ -373,13 +630,85 @@ const stockTools = {
 
     getReplenishmentReport: {
         description:
-            "Get items that need replenishment within the next N days based on replenishment date.",
+            "Get items with a replenishment date in the next N days, each with its forecast stock-out date and whether it runs out before the replenishment arrives. Also lists in-stock items whose demand forecast exhausts them within the window.",
         inputSchema: schemas.replenishmentReportSchema,
         execute: async (
             input: z.infer<typeof schemas.replenishmentReportSchema>,
         ) => getReplenishmentReport(input),
     },
 
+    forecastMaterialDemand: {
+        description:
+            "Forecast monthly demand (billed quantity) per material with prediction intervals, using seasonal smoothing when there are two years of history and simpler fallbacks for sparse history. Also projects the date current stock runs out.",
+        inputSchema: schemas.forecastMaterialDemandSchema,
+        execute: async (
+            input: z.infer<typeof schemas.forecastMaterialDemandSchema>,
+        ) => forecastMaterialDemand(input),
+    },
+
+    getItemsBelowReorderPoint: {
+        description:
+            "List materials at or below their reorder point (lead-time demand plus safety stock for the material's service level) with the recommended order quantity.",
+        inputSchema: schemas.itemsBelowReorderPointSchema,
+        execute: async (
+            input: z.infer<typeof schemas.itemsBelowReorderPointSchema>,
+        ) => getItemsBelowReorderPoint(input),
+    },
+
+    recalculateReorderPoints: {
+        description:
+            "Recalculate and save reorder points and safety stock from the last 12 months of demand and current lead times, optionally setting a new service level for the given materials. Admin only; only call when the user asks to recalculate or change a service level.",
+        inputSchema: schemas.recalculateReorderPointsSchema,
+        execute: async (
+            input: z.infer<typeof schemas.recalculateReorderPointsSchema>,
+        ) => recalculateReorderPoints(input),
+    },
+
+    generatePurchaseSuggestions: {
+        description:
+            "Generate and save a draft purchase list: for each material, the quantity needed to cover forecast demand over its lead time plus the target coverage months, minus current stock. Suggestions are grouped by book or fabric type. Returns the draft ID and an exportUrl for the XLSX download; share it as a markdown link.",
+        inputSchema: schemas.generatePurchaseSuggestionsSchema,
+        execute: async (
+            input: z.infer<typeof schemas.generatePurchaseSuggestionsSchema>,
+        ) => generatePurchaseSuggestions(input),
+    },
+
+    getPurchaseSuggestionDraft: {
+        description:
+            "Get a saved purchase suggestion draft by ID with its group totals, lines and XLSX exportUrl.",
+        inputSchema: schemas.purchaseSuggestionDraftSchema,
+        execute: async (
+            input: z.infer<typeof schemas.purchaseSuggestionDraftSchema>,
+        ) => getPurchaseSuggestionDraft(input),
+    },
+
+    listPurchaseSuggestionDrafts: {
+        description:
+            "List recent purchase suggestion drafts with line counts, totals and XLSX exportUrls.",
+        inputSchema: schemas.listPurchaseSuggestionDraftsSchema,
+        execute: async (
+            input: z.infer<typeof schemas.listPurchaseSuggestionDraftsSchema>,
+        ) => listPurchaseSuggestionDrafts(input),
+    },
+
+    findSubstituteMaterials: {
+        description:
+            "Find in-stock alternatives to a material (e.g. one that is out of stock) ranked by similarity of fabric type, end use, colour family, colour, pattern, composition, GSM and width. Each substitute lists which attributes match and which differ.",
+        inputSchema: schemas.findSubstituteMaterialsSchema,
+        execute: async (
+            input: z.infer<typeof schemas.findSubstituteMaterialsSchema>,
+        ) => findSubstituteMaterials(input),
+    },
+
+    getMaterialClassification: {
+        description:
+            "Segment materials by ABC (share of revenue over the last 12 months) and XYZ (variability of monthly demand). Returns the 3x3 matrix with material counts and revenue per cell, the classified materials, and when the classification was computed (it is refreshed weekly). searchStock and the replenishment reports show the same class as abcXyzClass.",
+        inputSchema: schemas.materialClassificationSchema,
+        execute: async (
+            input: z.infer<typeof schemas.materialClassificationSchema>,
+        ) => getMaterialClassification(input),
+    },
+
     getStockLeadTimeAnalysis: {
         description:
             "Analyze stock items by lead time - find items with long or short lead times.",
@@ -432,6 +761,23 @@ const stockTools = {
     },
 };
 
+// ========================
+// Analytics Query Tool
+// ========================
+
+const analyticsTools = {
+    runAnalyticsQuery: {
+        description:
+            `Run a read-only SQL SELECT for questions no other tool answers (e.g. revenue by profit center and plant for a fiscal year). Only the invoice and stock tables are available; customer, agent and broker sessions only see their own invoice rows and cannot query stock. Results are capped, so aggregate in SQL instead of fetching raw rows. Columns - invoice: ${
+                ANALYTICS_TABLES.invoice.join(", ")
+            }. stock: ${ANALYTICS_TABLES.stock.join(", ")}.`,
+        inputSchema: schemas.runAnalyticsQuerySchema,
+        execute: async (
+            input: z.infer<typeof schemas.runAnalyticsQuerySchema>,
+        ) => runAnalyticsQuery(input),
+    },
+};
+
 // ========================
 // Export All Tools
 // ========================
@@ -439,8 +785,41 @@ const stockTools = {
 export const chatTools = {
     ...invoiceTools,
     ...userTools,
+    ...agentTools,
+    ...brokerTools,
     ...salesAnalysisTools,
     ...stockTools,
+    ...analyticsTools,
 };
 
 export type ChatToolName = keyof typeof chatTools;
+
+// ========================
+// Role-based Tool Sets
+// ========================
+
+// Customers, agents and brokers must never see data outside their own book,
+// so they only get "my" tools and the analytics query tool, all of which are
+// scoped server-side from the session.
+const toolsByRole = {
+    admin: {
+        ...invoiceTools,
+        ...userTools,
+        ...salesAnalysisTools,
+        ...stockTools,
+        ...analyticsTools,
+    },
+    sales: {
+        ...invoiceTools,
+        ...salesAnalysisTools,
+        ...stockTools,
+        ...analyticsTools,
+    },
+    agent: { ...agentTools, ...analyticsTools },
+    broker: { ...brokerTools, ...analyticsTools },
+    customer: { ...userTools, ...analyticsTools },
+} satisfies Record<UserRole, Partial<typeof chatTools>>;
+
+export function getChatToolsForRole(role: UserRole) {
+    return toolsByRole[role];
+}
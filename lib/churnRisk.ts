@@ -0,0 +1,287 @@
+import { sql } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+
+// Churn risk: flag customers who are drifting away while they are still
+// ordering, by comparing each customer with their own history rather than a
+// fixed inactivity cut-off.
+
+// =========
+// Configuration
+// =========
+
+// Order intervals are measured over this much history
+const HISTORY_MONTHS = 24;
+
+// Order value and product mix compare the last N months with the N before
+const COMPARISON_MONTHS = 6;
+
+// Customers silent for longer than this have already churned and belong to
+// getInactiveCustomers instead
+const ACTIVE_MONTHS = 12;
+
+// At least this many distinct order dates are needed for a typical interval
+const MIN_ORDER_DAYS = 3;
+
+const WEIGHTS = { overdue: 0.5, revenue: 0.3, productMix: 0.2 };
+
+export const CHURN_RISK_LEVELS = { high: 60, medium: 35 } as const;
+
+export type ChurnRiskLevel = keyof typeof CHURN_RISK_LEVELS | "low";
+
+export type ChurnSignals = {
+    daysSinceLastOrder: number;
+    typicalIntervalDays: number;
+    recentRevenue: number;
+    priorRevenue: number;
+    recentMaterials: number;
+    priorMaterials: number;
+};
+
+function clamp(value: number) {
+    return Math.min(Math.max(value, 0), 1);
+}
+
+function monthsBefore(date: Date, months: number) {
+    const shifted = new Date(date);
+    shifted.setUTCMonth(shifted.getUTCMonth() - months);
+    return shifted.toISOString().slice(0, 10);
+}
+
+// =========
+// Scoring
+// =========
+
+/**
+ * Combine the three churn signals into a 0-100 score with a reason for each
+ * signal that contributes:
+ * - overdue: 0 while within the usual interval, 1 at three times it
+ * - revenue: share of order value lost versus the previous window
+ * - product mix: share of distinct materials no longer bought
+ */
+export function scoreChurnRisk(signals: ChurnSignals) {
+    const overdueRatio = signals.typicalIntervalDays > 0
+        ? signals.daysSinceLastOrder / signals.typicalIntervalDays
+        : 0;
+    const overdue = clamp((overdueRatio - 1) / 2);
+    const revenueDecline = signals.priorRevenue > 0
+        ? clamp(1 - signals.recentRevenue / signals.priorRevenue)
+        : 0;
+    const mixDecline = signals.priorMaterials > 0
+        ? clamp(1 - signals.recentMaterials / signals.priorMaterials)
+        : 0;
+
+    const riskScore = Math.round(
+        100 * (WEIGHTS.overdue * overdue +
+            WEIGHTS.revenue * revenueDecline +
+            WEIGHTS.productMix * mixDecline),
+    );
+
+    const reasons: string[] = [];
+    if (overdue > 0) {
+        reasons.push(
+            `No order for ${signals.daysSinceLastOrder} days vs a typical ${
+                Math.round(signals.typicalIntervalDays)
+            } (${overdueRatio.toFixed(1)}x)`,
+        );
+    }
+    if (revenueDecline > 0) {
+        reasons.push(
+            `Order value down ${
+                Math.round(revenueDecline * 100)
+            }% vs the previous ${COMPARISON_MONTHS} months`,
+        );
+    }
+    if (mixDecline > 0) {
+        reasons.push(
+            `Bought ${signals.recentMaterials} materials vs ${signals.priorMaterials} in the previous ${COMPARISON_MONTHS} months`,
+        );
+    }
+
+    const riskLevel: ChurnRiskLevel = riskScore >= CHURN_RISK_LEVELS.high
+        ? "high"
+        : riskScore >= CHURN_RISK_LEVELS.medium
+        ? "medium"
+        : "low";
+
+    return {
+        riskScore,
+        riskLevel,
+        overdueRatio: Math.round(overdueRatio * 10) / 10,
+        reasons: reasons.join("; "),
+    };
+}
+
+type ChurnRow = {
+    code: string;
+    customer_name: string | null;
+    agent_code: string | null;
+    agent_name: string | null;
+    region_zone: string | null;
+    last_order_date: string;
+    days_since_last_order: number;
+    typical_interval_days: number;
+    order_days: number;
+    recent_revenue: string;
+    prior_revenue: string;
+    recent_materials: number;
+    prior_materials: number;
+};
+
+/**
+ * Churn signals for every customer who ordered in the last year and has
+ * enough order history. Each customer belongs to the agent and region of
+ * their most recent invoice.
+ */
+async function getChurnSignals(today: Date) {
+    const todayIso = today.toISOString().slice(0, 10);
+    const historyStart = monthsBefore(today, HISTORY_MONTHS);
+    const activeSince = monthsBefore(today, ACTIVE_MONTHS);
+    const recentStart = monthsBefore(today, COMPARISON_MONTHS);
+    const priorStart = monthsBefore(today, COMPARISON_MONTHS * 2);
+
+    const isRecent = sql`${invoice.invoiceDate} > ${recentStart}`;
+    const isPrior =
+        sql`${invoice.invoiceDate} <= ${recentStart} and ${invoice.invoiceDate} > ${priorStart}`;
+
+    const result = await db.execute<ChurnRow>(sql`
+        with orders as (
+            select distinct ${invoice.billToPartyCode} as code,
+                ${invoice.invoiceDate} as order_date
+            from ${invoice}
+            where ${invoice.billToPartyCode} is not null
+                and ${invoice.invoiceDate} > ${historyStart}
+                and ${invoice.invoiceDate} <= ${todayIso}
+        ),
+        intervals as (
+            select code,
+                percentile_cont(0.5) within group (order by gap) as typical_interval_days,
+                count(*)::int + 1 as order_days
+            from (
+                select code,
+                    order_date - lag(order_date) over (partition by code order by order_date) as gap
+                from orders
+            ) gaps
+            where gap is not null
+            group by code
+        ),
+        activity as (
+            select ${invoice.billToPartyCode} as code,
+                max(${invoice.billToParty}) as customer_name,
+                (array_agg(${invoice.agentCode} order by ${invoice.invoiceDate} desc))[1] as agent_code,
+                (array_agg(${invoice.agentName} order by ${invoice.invoiceDate} desc))[1] as agent_name,
+                (array_agg(${invoice.regionZone} order by ${invoice.invoiceDate} desc))[1] as region_zone,
+                max(${invoice.invoiceDate})::text as last_order_date,
+                ${todayIso}::date - max(${invoice.invoiceDate}) as days_since_last_order,
+                coalesce(sum(${invoice.netAmountInr}) filter (where ${isRecent}), 0) as recent_revenue,
+                coalesce(sum(${invoice.netAmountInr}) filter (where ${isPrior}), 0) as prior_revenue,
+                count(distinct ${invoice.material}) filter (where ${isRecent})::int as recent_materials,
+                count(distinct ${invoice.material}) filter (where ${isPrior})::int as prior_materials
+            from ${invoice}
+            where ${invoice.billToPartyCode} is not null
+                and ${invoice.invoiceDate} > ${historyStart}
+                and ${invoice.invoiceDate} <= ${todayIso}
+            group by ${invoice.billToPartyCode}
+        )
+        select activity.*, intervals.typical_interval_days, intervals.order_days
+        from activity
+        join intervals on intervals.code = activity.code
+        where activity.last_order_date > ${activeSince}
+            and intervals.order_days >= ${MIN_ORDER_DAYS}
+    `);
+
+    return result.rows;
+}
+
+// =========
+// Churn risk tool
+// =========
+
+/**
+ * Customers at risk of churning, highest risk first within each agent, plus
+ * a per-agent summary so each agent's list can be handed over.
+ */
+export async function getChurnRiskCustomers(params: {
+    agentCode?: string;
+    regionZone?: string;
+    minRiskScore?: number;
+    limit?: number;
+}) {
+    const today = new Date();
+    const minRiskScore = params.minRiskScore ?? CHURN_RISK_LEVELS.medium;
+    const regionZone = params.regionZone?.toLowerCase();
+
+    const rows = await getChurnSignals(today);
+
+    const customers = rows
+        .filter((row) =>
+            (!params.agentCode || row.agent_code === params.agentCode) &&
+            (!regionZone || row.region_zone?.toLowerCase().includes(regionZone))
+        )
+        .map((row) => {
+            const signals = {
+                daysSinceLastOrder: Number(row.days_since_last_order),
+                typicalIntervalDays: Number(row.typical_interval_days),
+                recentRevenue: Number(row.recent_revenue),
+                priorRevenue: Number(row.prior_revenue),
+                recentMaterials: Number(row.recent_materials),
+                priorMaterials: Number(row.prior_materials),
+            };
+            return {
+                agentCode: row.agent_code,
+                agentName: row.agent_name,
+                billToPartyCode: row.code,
+                customerName: row.customer_name,
+                regionZone: row.region_zone,
+                ...scoreChurnRisk(signals),
+                lastOrderDate: row.last_order_date,
+                ...signals,
+                typicalIntervalDays: Math.round(signals.typicalIntervalDays),
+            };
+        })
+        .filter((customer) => customer.riskScore >= minRiskScore);
+
+    const agents = new Map<string, {
+        agentCode: string | null;
+        agentName: string | null;
+        atRiskCustomers: number;
+        highRisk: number;
+        priorRevenueAtRisk: number;
+    }>();
+    for (const customer of customers) {
+        const key = customer.agentCode ?? "";
+        const agent = agents.get(key) ?? {
+            agentCode: customer.agentCode,
+            agentName: customer.agentName,
+            atRiskCustomers: 0,
+            highRisk: 0,
+            priorRevenueAtRisk: 0,
+        };
+        agent.atRiskCustomers += 1;
+        if (customer.riskLevel === "high") agent.highRisk += 1;
+        agent.priorRevenueAtRisk += customer.priorRevenue;
+        agents.set(key, agent);
+    }
+
+    const byAgent = Array.from(agents.values()).sort((a, b) =>
+        b.priorRevenueAtRisk - a.priorRevenueAtRisk
+    );
+    const agentOrder = new Map(
+        byAgent.map((agent, i) => [agent.agentCode ?? "", i]),
+    );
+
+    return {
+        asOfDate: today.toISOString().slice(0, 10),
+        minRiskScore,
+        atRiskCustomers: customers.length,
+        agents: byAgent,
+        customers: customers
+            .sort((a, b) =>
+                agentOrder.get(a.agentCode ?? "")! -
+                    agentOrder.get(b.agentCode ?? "")! ||
+                b.riskScore - a.riskScore
+            )
+            .slice(0, params.limit || 100),
+    };
+}
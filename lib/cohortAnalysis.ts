@@ -0,0 +1,202 @@
+import { sql } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import type { HeatmapSpec } from "./chat/toolOutput";
+import { formatFiscalYear, type PeriodInput, resolveDateRange } from "./periods";
+
+// Cohort retention: customers are grouped by the month or fiscal quarter of
+// their first invoice, then followed period by period to see what share of
+// them (and of their first-period revenue) keeps coming back.
+
+// =========
+// Configuration
+// =========
+
+export type CohortGranularity = "month" | "quarter";
+
+export const COHORT_SEGMENTS = {
+    region: invoice.regionZone,
+    customer_group: invoice.customerGroupDesc,
+};
+
+export type CohortSegment = keyof typeof COHORT_SEGMENTS;
+
+const DEFAULT_PERIODS = { month: 12, quarter: 8 } as const;
+const MAX_PERIODS = { month: 24, quarter: 12 } as const;
+
+type CohortRow = {
+    segment: string | null;
+    cohort_index: number;
+    period_offset: number;
+    customers: number;
+    revenue: string;
+};
+
+// Absolute month number (year * 12 + zero-based month) of a date
+function monthIndexSql(value: unknown) {
+    return sql`(extract(year from ${value}) * 12 + extract(month from ${value}) - 1)::int`;
+}
+
+// Fiscal quarters count from April, i.e. absolute month 3 of a year
+function periodIndexSql(value: unknown, granularity: CohortGranularity) {
+    return granularity === "month"
+        ? monthIndexSql(value)
+        : sql`floor((${monthIndexSql(value)} - 3) / 3.0)::int`;
+}
+
+function periodIndexOf(date: Date, granularity: CohortGranularity) {
+    const month = date.getUTCFullYear() * 12 + date.getUTCMonth();
+    return granularity === "month" ? month : Math.floor((month - 3) / 3);
+}
+
+function periodLabel(index: number, granularity: CohortGranularity) {
+    if (granularity === "month") {
+        const year = Math.floor(index / 12);
+        return `${year}-${String((index % 12) + 1).padStart(2, "0")}`;
+    }
+    // Quarter index q starts in absolute month 3q + 3
+    const startMonth = index * 3 + 3;
+    const year = Math.floor(startMonth / 12);
+    const month = startMonth % 12;
+    const fiscalYear = month >= 3 ? year + 1 : year;
+    const quarter = (((month - 3 + 12) % 12) / 3) + 1;
+    return `${formatFiscalYear(fiscalYear)} Q${quarter}`;
+}
+
+function defaultCohortStart(granularity: CohortGranularity, today: Date) {
+    const start = new Date(today);
+    start.setUTCMonth(
+        start.getUTCMonth() -
+            (granularity === "month"
+                ? DEFAULT_PERIODS.month
+                : DEFAULT_PERIODS.quarter * 3),
+    );
+    return start.toISOString().slice(0, 10);
+}
+
+// =========
+// Cohort tool
+// =========
+
+/**
+ * Customer and revenue retention matrices by first-purchase cohort. Column
+ * M0 / Q0 is the cohort's first period (always 100%); later columns are the
+ * share of customers who bought again in that period, or their revenue as a
+ * share of the first period's. Periods that have not happened yet are empty.
+ */
+export async function getCohortRetention(params: {
+    granularity?: CohortGranularity;
+    fromDate?: string | null;
+    toDate?: string | null;
+    period?: PeriodInput | null;
+    periods?: number;
+    segmentBy?: CohortSegment;
+}) {
+    const today = new Date();
+    const granularity = params.granularity ?? "month";
+    const periods = Math.min(
+        Math.max(params.periods || DEFAULT_PERIODS[granularity], 1),
+        MAX_PERIODS[granularity],
+    );
+
+    const range = resolveDateRange(params);
+    const fromDate = range.fromDate ?? defaultCohortStart(granularity, today);
+    const toDate = range.toDate ?? today.toISOString().slice(0, 10);
+
+    const segmentColumn = params.segmentBy
+        ? COHORT_SEGMENTS[params.segmentBy]
+        : null;
+    const segmentSql = segmentColumn
+        ? sql`(array_agg(${segmentColumn} order by ${invoice.invoiceDate}))[1]`
+        : sql`null`;
+
+    const cohortIndex = periodIndexSql(sql`customers.first_date`, granularity);
+    const periodOffset =
+        sql`${periodIndexSql(invoice.invoiceDate, granularity)} - ${cohortIndex}`;
+
+    // A customer's segment is taken from their first invoice
+    const result = await db.execute<CohortRow>(sql`
+        with customers as (
+            select ${invoice.billToPartyCode} as code,
+                min(${invoice.invoiceDate}) as first_date,
+                ${segmentSql} as segment
+            from ${invoice}
+            where ${invoice.billToPartyCode} is not null
+                and ${invoice.invoiceDate} is not null
+            group by ${invoice.billToPartyCode}
+        )
+        select customers.segment,
+            ${cohortIndex} as cohort_index,
+            ${periodOffset} as period_offset,
+            count(distinct customers.code)::int as customers,
+            coalesce(sum(${invoice.netAmountInr}), 0) as revenue
+        from ${invoice}
+        join customers on customers.code = ${invoice.billToPartyCode}
+        where customers.first_date between ${fromDate} and ${toDate}
+            and ${periodOffset} < ${periods}
+        group by 1, 2, 3
+    `);
+
+    const currentIndex = periodIndexOf(today, granularity);
+    const prefix = granularity === "month" ? "M" : "Q";
+    const offsetColumns = Array.from(
+        { length: periods },
+        (_, i) => `${prefix}${i}`,
+    );
+
+    type Cohort = {
+        segment: string | null;
+        index: number;
+        customers: number[];
+        revenue: number[];
+    };
+    const cohorts = new Map<string, Cohort>();
+    for (const row of result.rows) {
+        const key = `${row.segment ?? ""}|${row.cohort_index}`;
+        const cohort = cohorts.get(key) ?? {
+            segment: row.segment,
+            index: Number(row.cohort_index),
+            customers: new Array<number>(periods).fill(0),
+            revenue: new Array<number>(periods).fill(0),
+        };
+        cohort.customers[row.period_offset] = Number(row.customers);
+        cohort.revenue[row.period_offset] = Number(row.revenue);
+        cohorts.set(key, cohort);
+    }
+
+    const ordered = Array.from(cohorts.values()).sort((a, b) =>
+        (a.segment ?? "").localeCompare(b.segment ?? "") || a.index - b.index
+    );
+
+    const matrix = (
+        values: (cohort: Cohort) => number[],
+    ): HeatmapSpec => ({
+        kind: "heatmap",
+        valueColumns: offsetColumns,
+        rows: ordered.map((cohort) => {
+            const series = values(cohort);
+            const base = series[0];
+            return {
+                ...(params.segmentBy ? { segment: cohort.segment } : {}),
+                cohort: periodLabel(cohort.index, granularity),
+                customers: cohort.customers[0],
+                ...Object.fromEntries(offsetColumns.map((column, i) => [
+                    column,
+                    cohort.index + i > currentIndex || base <= 0
+                        ? null
+                        : Math.round((series[i] / base) * 1000) / 10,
+                ])),
+            };
+        }),
+    });
+
+    return {
+        granularity,
+        cohortsFrom: fromDate,
+        cohortsTo: toDate,
+        segmentBy: params.segmentBy ?? null,
+        customerRetention: matrix((cohort) => cohort.customers),
+        revenueRetention: matrix((cohort) => cohort.revenue),
+    };
+}
@@ -0,0 +1,180 @@
+import { and, asc, desc, eq } from "drizzle-orm";
+import type { UIMessage } from "ai";
+
+import { db } from "@/drizzle/db";
+import { conversation, message } from "@/drizzle/schema/chat-schema";
+
+const TITLE_MAX_LENGTH = 60;
+
+// Use the first user prompt as the title until the user renames it
+function deriveTitle(messages: UIMessage[]) {
+    const firstUserMessage = messages.find((m) => m.role === "user");
+    const text = firstUserMessage?.parts
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join(" ")
+        .trim();
+
+    if (!text) return "New conversation";
+
+    return text.length > TITLE_MAX_LENGTH
+        ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…`
+        : text;
+}
+
+// =========
+// Lookups
+// =========
+
+export async function listConversations(userId: string) {
+    return await db
+        .select({
+            id: conversation.id,
+            title: conversation.title,
+            createdAt: conversation.createdAt,
+            updatedAt: conversation.updatedAt,
+        })
+        .from(conversation)
+        .where(eq(conversation.userId, userId))
+        .orderBy(desc(conversation.updatedAt));
+}
+
+async function getConversationOwner(conversationId: string) {
+    const [row] = await db
+        .select({ userId: conversation.userId })
+        .from(conversation)
+        .where(eq(conversation.id, conversationId))
+        .limit(1);
+
+    return row?.userId ?? null;
+}
+
+/**
+ * A conversation ID may be used by a user if it is new or already theirs.
+ */
+export async function canUseConversation(params: {
+    userId: string;
+    conversationId: string;
+}) {
+    const ownerId = await getConversationOwner(params.conversationId);
+    return ownerId === null || ownerId === params.userId;
+}
+
+export async function getConversation(params: {
+    userId: string;
+    conversationId: string;
+}) {
+    const [row] = await db
+        .select()
+        .from(conversation)
+        .where(
+            and(
+                eq(conversation.id, params.conversationId),
+                eq(conversation.userId, params.userId),
+            ),
+        )
+        .limit(1);
+
+    if (!row) return null;
+
+    const rows = await db
+        .select()
+        .from(message)
+        .where(eq(message.conversationId, row.id))
+        .orderBy(asc(message.position));
+
+    const messages = rows.map((m) => ({
+        id: m.id,
+        role: m.role,
+        parts: m.parts,
+        ...(m.metadata ? { metadata: m.metadata } : {}),
+    })) as UIMessage[];
+
+    return { conversation: row, messages };
+}
+
+// =========
+// Mutations
+// =========
+
+/**
+ * Persist the full message list of a conversation after a response finishes.
+ * The list from the AI SDK is authoritative, so existing rows are replaced.
+ */
+export async function saveConversation(params: {
+    userId: string;
+    conversationId: string;
+    messages: UIMessage[];
+}) {
+    const { userId, conversationId, messages } = params;
+
+    await db.transaction(async (tx) => {
+        await tx
+            .insert(conversation)
+            .values({
+                id: conversationId,
+                userId,
+                title: deriveTitle(messages),
+            })
+            .onConflictDoUpdate({
+                target: conversation.id,
+                set: { updatedAt: new Date() },
+            });
+
+        await tx.delete(message).where(
+            eq(message.conversationId, conversationId),
+        );
+
+        if (messages.length === 0) return;
+
+        await tx.insert(message).values(
+            messages.map((m, position) => ({
+                id: m.id,
+                conversationId,
+                role: m.role,
+                parts: m.parts,
+                metadata: m.metadata ?? null,
+                position,
+            })),
+        );
+    });
+}
+
+export async function renameConversation(params: {
+    userId: string;
+    conversationId: string;
+    title: string;
+}) {
+    const [row] = await db
+        .update(conversation)
+        .set({ title: params.title.trim().slice(0, TITLE_MAX_LENGTH) })
+        .where(
+            and(
+                eq(conversation.id, params.conversationId),
+                eq(conversation.userId, params.userId),
+            ),
+        )
+        .returning({
+            id: conversation.id,
+            title: conversation.title,
+            updatedAt: conversation.updatedAt,
+        });
+
+    return row ?? null;
+}
+
+export async function deleteConversation(params: {
+    userId: string;
+    conversationId: string;
+}) {
+    const [row] = await db
+        .delete(conversation)
+        .where(
+            and(
+                eq(conversation.id, params.conversationId),
+                eq(conversation.userId, params.userId),
+            ),
+        )
+        .returning({ id: conversation.id });
+
+    return row ?? null;
+}
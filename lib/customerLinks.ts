@@ -0,0 +1,200 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { user } from "@/drizzle/schema/auth-schema";
+import {
+    type CustomerLinkStatus,
+    userCustomerLink,
+} from "@/drizzle/schema/customer-link-schema";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+
+// =========
+// Lookups
+// =========
+
+/**
+ * Get the billToPartyCodes a user has been approved to see.
+ * This is the only source of truth for scoping the "my" tools.
+ */
+export async function getApprovedCustomerCodes(userId: string) {
+    const rows = await db
+        .select({ billToPartyCode: userCustomerLink.billToPartyCode })
+        .from(userCustomerLink)
+        .where(
+            and(
+                eq(userCustomerLink.userId, userId),
+                eq(userCustomerLink.status, "approved"),
+            ),
+        );
+
+    return rows.map((r) => r.billToPartyCode);
+}
+
+async function customerCodeExists(billToPartyCode: string) {
+    const [row] = await db
+        .select({ billToPartyCode: invoice.billToPartyCode })
+        .from(invoice)
+        .where(eq(invoice.billToPartyCode, billToPartyCode))
+        .limit(1);
+
+    return Boolean(row);
+}
+
+export async function listUserCustomerLinks(userId: string) {
+    return await db
+        .select()
+        .from(userCustomerLink)
+        .where(eq(userCustomerLink.userId, userId))
+        .orderBy(desc(userCustomerLink.requestedAt));
+}
+
+export async function listCustomerLinks(params: {
+    status?: CustomerLinkStatus;
+}) {
+    return await db
+        .select({
+            id: userCustomerLink.id,
+            userId: userCustomerLink.userId,
+            userName: user.name,
+            userEmail: user.email,
+            billToPartyCode: userCustomerLink.billToPartyCode,
+            billToParty: sql<string | null>`(
+                select ${invoice.billToParty} from ${invoice}
+                where ${invoice.billToPartyCode} = ${userCustomerLink.billToPartyCode}
+                limit 1
+            )`,
+            status: userCustomerLink.status,
+            requestedAt: userCustomerLink.requestedAt,
+            reviewedAt: userCustomerLink.reviewedAt,
+        })
+        .from(userCustomerLink)
+        .innerJoin(user, eq(user.id, userCustomerLink.userId))
+        .where(
+            params.status
+                ? eq(userCustomerLink.status, params.status)
+                : undefined,
+        )
+        .orderBy(desc(userCustomerLink.requestedAt));
+}
+
+// =========
+// Mutations
+// =========
+
+/**
+ * A user asks to be linked to a customer code. The link stays `pending`
+ * (and grants nothing) until an admin approves it. Asking again after a
+ * rejection reopens the request. Unknown codes are accepted the same way,
+ * so the response does not reveal which customer codes exist; the admin
+ * rejects them on review.
+ */
+export async function requestCustomerLink(params: {
+    userId: string;
+    billToPartyCode: string;
+}) {
+    const billToPartyCode = params.billToPartyCode.trim();
+
+    const [row] = await db
+        .insert(userCustomerLink)
+        .values({ userId: params.userId, billToPartyCode })
+        .onConflictDoUpdate({
+            target: [userCustomerLink.userId, userCustomerLink.billToPartyCode],
+            set: {
+                status: "pending",
+                requestedAt: new Date(),
+                reviewedAt: null,
+                reviewedBy: null,
+            },
+            setWhere: eq(userCustomerLink.status, "rejected"),
+        })
+        .returning();
+
+    // Pending and approved links are left as they are
+    if (!row) {
+        return {
+            success: false,
+            error:
+                `A link request for customer ${billToPartyCode} is already pending or approved for this account.`,
+            data: null,
+        };
+    }
+
+    return { success: true, data: row };
+}
+
+/**
+ * Admin shortcut: link a user to a customer code and approve it in one step.
+ * Returns null when the user does not exist.
+ */
+export async function createApprovedCustomerLink(params: {
+    userId: string;
+    billToPartyCode: string;
+    reviewerId: string;
+}) {
+    const billToPartyCode = params.billToPartyCode.trim();
+
+    const [target] = await db
+        .select({ id: user.id })
+        .from(user)
+        .where(eq(user.id, params.userId))
+        .limit(1);
+
+    if (!target) return null;
+
+    if (!(await customerCodeExists(billToPartyCode))) {
+        return {
+            success: false,
+            error: `No customer found with code: ${billToPartyCode}`,
+            data: null,
+        };
+    }
+
+    const reviewedAt = new Date();
+    const [row] = await db
+        .insert(userCustomerLink)
+        .values({
+            userId: params.userId,
+            billToPartyCode,
+            status: "approved",
+            reviewedAt,
+            reviewedBy: params.reviewerId,
+        })
+        .onConflictDoUpdate({
+            target: [userCustomerLink.userId, userCustomerLink.billToPartyCode],
+            set: {
+                status: "approved",
+                reviewedAt,
+                reviewedBy: params.reviewerId,
+            },
+        })
+        .returning();
+
+    return { success: true, data: row };
+}
+
+export async function reviewCustomerLink(params: {
+    id: number;
+    status: Exclude<CustomerLinkStatus, "pending">;
+    reviewerId: string;
+}) {
+    const [row] = await db
+        .update(userCustomerLink)
+        .set({
+            status: params.status,
+            reviewedAt: new Date(),
+            reviewedBy: params.reviewerId,
+        })
+        .where(eq(userCustomerLink.id, params.id))
+        .returning();
+
+    return row ?? null;
+}
+
+export async function deleteCustomerLink(id: number) {
+    const [row] = await db
+        .delete(userCustomerLink)
+        .where(eq(userCustomerLink.id, id))
+        .returning({ id: userCustomerLink.id });
+
+    return row ?? null;
+}
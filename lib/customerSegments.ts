@@ -0,0 +1,291 @@
+import { and, eq, ilike, isNotNull, lte, sql } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { getFiscalQuarter, getFiscalYear, resolvePeriod } from "./periods";
+
+// Recency / frequency / monetary (RFM) segmentation of customers. Each
+// customer gets a 1-5 score per dimension relative to the rest of the base,
+// and the scores map onto named segments. Scores are always computed "as of"
+// a date from invoice history alone, so past segments can be recomputed
+// without storing snapshots.
+
+// =========
+// Configuration
+// =========
+
+export const CUSTOMER_SEGMENTS = [
+    "champions",
+    "loyal",
+    "new",
+    "promising",
+    "at_risk",
+    "hibernating",
+] as const;
+
+export type CustomerSegment = (typeof CUSTOMER_SEGMENTS)[number];
+
+// Frequency and monetary value look back this far from the as-of date
+const WINDOW_MONTHS = 12;
+
+// Customers whose first purchase is this recent are "new" whatever their score
+const NEW_CUSTOMER_DAYS = 90;
+
+const DEFAULT_HISTORY_QUARTERS = 8;
+
+export type RfmScores = {
+    recencyScore: number;
+    frequencyScore: number;
+    monetaryScore: number;
+};
+
+// =========
+// Scoring
+// =========
+
+/**
+ * Quintile score (1-5) of each value, higher values scoring higher. Equal
+ * values always share a score.
+ */
+export function quintileScores(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const firstIndex = new Map<number, number>();
+    sorted.forEach((value, i) => {
+        if (!firstIndex.has(value)) firstIndex.set(value, i);
+    });
+
+    return values.map((value) =>
+        Math.floor((firstIndex.get(value)! * 5) / values.length) + 1
+    );
+}
+
+/**
+ * Name the segment for a set of scores. Rules are checked in order.
+ */
+export function segmentFor(
+    scores: RfmScores,
+    isNewCustomer: boolean,
+): CustomerSegment {
+    const { recencyScore: r, frequencyScore: f } = scores;
+
+    if (isNewCustomer) return "new";
+    if (r >= 4 && f >= 4) return "champions";
+    if (r <= 2 && f >= 3) return "at_risk";
+    if (r <= 2) return "hibernating";
+    if (f >= 3) return "loyal";
+    return "promising";
+}
+
+function daysBetween(from: string, to: string) {
+    return Math.round(
+        (new Date(to).getTime() - new Date(from).getTime()) / 86_400_000,
+    );
+}
+
+/**
+ * Score every customer with invoices on or before `asOfDate`.
+ */
+async function scoreCustomers(asOfDate: string) {
+    const windowStart = new Date(asOfDate);
+    windowStart.setUTCMonth(windowStart.getUTCMonth() - WINDOW_MONTHS);
+    const windowStartIso = windowStart.toISOString().slice(0, 10);
+    const inWindow = sql`${invoice.invoiceDate} > ${windowStartIso}`;
+
+    const rows = await db.select({
+        billToPartyCode: sql<string>`${invoice.billToPartyCode}`,
+        customerName: sql<string | null>`max(${invoice.billToParty})`,
+        firstPurchaseDate: sql<string>`min(${invoice.invoiceDate})::text`,
+        lastPurchaseDate: sql<string>`max(${invoice.invoiceDate})::text`,
+        frequency: sql<
+            number
+        >`count(distinct ${invoice.billingDocument}) filter (where ${inWindow})`,
+        monetary: sql<
+            number
+        >`coalesce(sum(${invoice.netAmountInr}) filter (where ${inWindow}), 0)`,
+    })
+        .from(invoice)
+        .where(and(
+            isNotNull(invoice.billToPartyCode),
+            lte(invoice.invoiceDate, asOfDate),
+        ))
+        .groupBy(invoice.billToPartyCode);
+
+    const customers = rows.map((row) => ({
+        billToPartyCode: row.billToPartyCode,
+        customerName: row.customerName,
+        firstPurchaseDate: row.firstPurchaseDate,
+        lastPurchaseDate: row.lastPurchaseDate,
+        recencyDays: daysBetween(row.lastPurchaseDate, asOfDate),
+        frequency: Number(row.frequency),
+        monetary: Number(row.monetary),
+    }));
+
+    // Fewer days since the last purchase is better, so score its negation
+    const recencyScores = quintileScores(customers.map((c) => -c.recencyDays));
+    const frequencyScores = quintileScores(customers.map((c) => c.frequency));
+    const monetaryScores = quintileScores(customers.map((c) => c.monetary));
+
+    return customers.map((customer, i) => {
+        const scores = {
+            recencyScore: recencyScores[i],
+            frequencyScore: frequencyScores[i],
+            monetaryScore: monetaryScores[i],
+        };
+        const isNewCustomer =
+            daysBetween(customer.firstPurchaseDate, asOfDate) <=
+                NEW_CUSTOMER_DAYS;
+
+        return {
+            ...customer,
+            ...scores,
+            rfm: `${scores.recencyScore}${scores.frequencyScore}${scores.monetaryScore}`,
+            segment: segmentFor(scores, isNewCustomer),
+        };
+    });
+}
+
+type ScoredCustomer = Awaited<ReturnType<typeof scoreCustomers>>[number];
+
+// =========
+// Segment tools
+// =========
+
+/**
+ * Customers by RFM segment. Scores are relative to the whole customer base;
+ * the region, city and agent filters only narrow which customers are listed
+ * (a customer matches if any of their invoices does).
+ */
+export async function getCustomerSegments(params: {
+    segment?: CustomerSegment;
+    regionZone?: string;
+    city?: string;
+    agentCode?: string;
+    asOfDate?: string;
+    limit?: number;
+}) {
+    const asOfDate = params.asOfDate ?? new Date().toISOString().slice(0, 10);
+
+    const conditions = [];
+    if (params.regionZone) {
+        conditions.push(ilike(invoice.regionZone, `%${params.regionZone}%`));
+    }
+    if (params.city) {
+        conditions.push(ilike(invoice.billToPartyCity, `%${params.city}%`));
+    }
+    if (params.agentCode) {
+        conditions.push(eq(invoice.agentCode, params.agentCode));
+    }
+
+    const [scored, matching] = await Promise.all([
+        scoreCustomers(asOfDate),
+        conditions.length > 0
+            ? db.selectDistinct({ code: invoice.billToPartyCode })
+                .from(invoice)
+                .where(and(lte(invoice.invoiceDate, asOfDate), ...conditions))
+            : null,
+    ]);
+
+    const matchingCodes = matching
+        ? new Set(matching.map((row) => row.code))
+        : null;
+    const customers = matchingCodes
+        ? scored.filter((c) => matchingCodes.has(c.billToPartyCode))
+        : scored;
+
+    const summary = CUSTOMER_SEGMENTS.map((segment) => {
+        const members = customers.filter((c) => c.segment === segment);
+        return {
+            segment,
+            customers: members.length,
+            revenueLast12Months: members.reduce((sum, c) => sum + c.monetary, 0),
+        };
+    });
+
+    return {
+        asOfDate,
+        windowMonths: WINDOW_MONTHS,
+        summary,
+        customers: customers
+            .filter((c) => !params.segment || c.segment === params.segment)
+            .sort((a, b) => b.monetary - a.monetary)
+            .slice(0, params.limit || 50),
+    };
+}
+
+/**
+ * A customer's segment at the end of each recent fiscal quarter, oldest
+ * first, ending with today.
+ */
+export async function getCustomerSegmentHistory(params: {
+    billToPartyCode: string;
+    quarters?: number;
+}) {
+    const today = new Date();
+    const quarters = Math.min(
+        Math.max(params.quarters || DEFAULT_HISTORY_QUARTERS, 1),
+        16,
+    );
+
+    // Quarter ends before today, newest first, then today itself
+    const snapshots = [{
+        label: "Today",
+        asOfDate: today.toISOString().slice(0, 10),
+    }];
+    let fiscalYear = getFiscalYear(today);
+    let quarter = getFiscalQuarter(today);
+    while (snapshots.length < quarters) {
+        quarter -= 1;
+        if (quarter === 0) {
+            quarter = 4;
+            fiscalYear -= 1;
+        }
+        const period = resolvePeriod({
+            type: "fiscal_quarter",
+            fiscalYear,
+            quarter,
+        });
+        snapshots.push({ label: period.label, asOfDate: period.toDate });
+    }
+    snapshots.reverse();
+
+    // One snapshot at a time; each scores the whole customer base
+    const found: (ScoredCustomer | undefined)[] = [];
+    for (const snapshot of snapshots) {
+        const scored = await scoreCustomers(snapshot.asOfDate);
+        found.push(
+            scored.find((c) => c.billToPartyCode === params.billToPartyCode),
+        );
+    }
+
+    const history = snapshots.map((snapshot, i) => {
+        const customer = found[i];
+        return {
+            period: snapshot.label,
+            asOfDate: snapshot.asOfDate,
+            segment: customer?.segment ?? null,
+            rfm: customer?.rfm ?? null,
+            recencyDays: customer?.recencyDays ?? null,
+            frequency: customer?.frequency ?? null,
+            monetary: customer?.monetary ?? null,
+            changed: i > 0 && found[i - 1]?.segment !== customer?.segment,
+        };
+    });
+
+    if (history.every((entry) => entry.segment === null)) {
+        return {
+            success: false,
+            error:
+                `No invoices found for customer code: ${params.billToPartyCode}`,
+            data: null,
+        };
+    }
+
+    return {
+        success: true,
+        data: {
+            billToPartyCode: params.billToPartyCode,
+            currentSegment: history.at(-1)?.segment ?? null,
+            history,
+        },
+    };
+}
@@ -0,0 +1,165 @@
+import { getInvoiceKpis, getRevenueByRegion } from "@/lib/invoiceTools";
+import { resolvePeriod } from "@/lib/periods";
+import {
+    getExcessStockReport,
+    getReplenishmentReport,
+    getStockSummaryKpis,
+    getTopProducts,
+} from "@/lib/salesAnalysisTools";
+import {
+    getMyInvoicePdfs,
+    getMyInvoiceSummary,
+    getMyMonthlyPurchaseTrend,
+    getMyProfile,
+    getMyPurchasesByMaterial,
+    getMyRecentInvoices,
+} from "@/lib/userTools";
+
+// =========
+// Admin dashboard
+// =========
+
+export type AdminDashboardFilters = {
+    fromDate?: string; // YYYY-MM-DD
+    toDate?: string; // YYYY-MM-DD
+    regionZone?: string;
+};
+
+const TOP_PRODUCTS_LIMIT = 10;
+const REPLENISHMENT_DAYS_AHEAD = 30;
+const EXCESS_STOCK_LIMIT = 10;
+
+/**
+ * Load every admin dashboard panel in one round trip. Sales panels honour the
+ * date range and region; stock panels always reflect the current position.
+ */
+export async function getAdminDashboard(filters: AdminDashboardFilters) {
+    const [
+        invoiceKpis,
+        stockKpis,
+        revenueByRegion,
+        topProducts,
+        replenishment,
+        excessStock,
+    ] = await Promise.all([
+        getInvoiceKpis(filters),
+        getStockSummaryKpis(),
+        getRevenueByRegion(filters),
+        getTopProducts({ ...filters, limit: TOP_PRODUCTS_LIMIT }),
+        getReplenishmentReport({ daysAhead: REPLENISHMENT_DAYS_AHEAD }),
+        getExcessStockReport({ limit: EXCESS_STOCK_LIMIT }),
+    ]);
+
+    return {
+        filters,
+        invoiceKpis,
+        stockKpis,
+        revenueByRegion,
+        topProducts,
+        replenishment,
+        excessStock,
+    };
+}
+
+export type AdminDashboardData = Awaited<ReturnType<typeof getAdminDashboard>>;
+
+// =========
+// Customer dashboard
+// =========
+
+const TREND_MONTHS = 12;
+const TOP_MATERIALS_LIMIT = 10;
+const RECENT_INVOICES_LIMIT = 8;
+// Invoices are stored per line item, so fetch enough lines to fill the list
+const RECENT_INVOICE_LINES = 50;
+
+type InvoiceLine = {
+    billingDocument: string | null;
+    invoiceDate: string | null;
+    billToParty: string | null;
+    netAmountInr: string | null;
+};
+
+// Collapse line items into one entry per billing document, newest first
+function groupInvoiceLines(lines: InvoiceLine[]) {
+    const invoices = new Map<string, {
+        billingDocument: string;
+        invoiceDate: string | null;
+        billToParty: string | null;
+        lineCount: number;
+        netAmountInr: number;
+    }>();
+
+    for (const line of lines) {
+        if (!line.billingDocument) continue;
+
+        const existing = invoices.get(line.billingDocument);
+        if (existing) {
+            existing.lineCount += 1;
+            existing.netAmountInr += Number(line.netAmountInr || 0);
+            continue;
+        }
+        if (invoices.size === RECENT_INVOICES_LIMIT) continue;
+
+        invoices.set(line.billingDocument, {
+            billingDocument: line.billingDocument,
+            invoiceDate: line.invoiceDate,
+            billToParty: line.billToParty,
+            lineCount: 1,
+            netAmountInr: Number(line.netAmountInr || 0),
+        });
+    }
+
+    return Array.from(invoices.values());
+}
+
+/**
+ * Load the signed-in customer's dashboard from the same scoped helpers the
+ * chat tools use, so it can never show another customer's invoices.
+ */
+export async function getCustomerDashboard() {
+    // Year-to-date follows the April-March fiscal year the business reports on
+    const fiscalYear = resolvePeriod({ type: "fiscal_year" });
+
+    const [profile, yearToDate, spendTrend, topMaterials, recentLines] =
+        await Promise.all([
+            getMyProfile(),
+            getMyInvoiceSummary({ fromDate: fiscalYear.fromDate }),
+            getMyMonthlyPurchaseTrend({ months: TREND_MONTHS }),
+            getMyPurchasesByMaterial({ limit: TOP_MATERIALS_LIMIT }),
+            getMyRecentInvoices({ limit: RECENT_INVOICE_LINES }),
+        ]);
+
+    if (!profile.data) {
+        return {
+            success: false as const,
+            error: profile.error ?? "Unable to load your dashboard.",
+            data: null,
+        };
+    }
+
+    const grouped = groupInvoiceLines(recentLines.data ?? []);
+    const pdfs = await getMyInvoicePdfs({
+        billingDocuments: grouped.map((entry) => entry.billingDocument),
+    });
+    const recentInvoices = grouped.map((entry) => ({
+        ...entry,
+        pdfUrl: pdfs.data?.get(entry.billingDocument) ?? null,
+    }));
+
+    return {
+        success: true as const,
+        data: {
+            profile: profile.data,
+            fiscalYear,
+            yearToDate: yearToDate.data,
+            spendTrend: spendTrend.data ?? [],
+            topMaterials: topMaterials.data ?? [],
+            recentInvoices,
+        },
+    };
+}
+
+export type CustomerDashboardData = NonNullable<
+    Awaited<ReturnType<typeof getCustomerDashboard>>["data"]
+>;
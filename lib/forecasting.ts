@@ -0,0 +1,431 @@
+import { and, gte, inArray, lt, sql } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { stock } from "@/drizzle/schema/stock-schema";
+
+// Material-level demand forecasting from monthly billed quantities. Models
+// are picked by how much history a material has: seasonal smoothing needs
+// two full years, trend smoothing half a year, and anything sparser falls
+// back to a plain average so new or slow-moving materials still get a number.
+
+// =========
+// Configuration
+// =========
+
+const HISTORY_MONTHS = 36;
+const SEASON_LENGTH = 12;
+const MIN_SEASONAL_MONTHS = SEASON_LENGTH * 2;
+const MIN_TREND_MONTHS = 6;
+
+// Smoothing weights for level, trend and season. The trend is damped so a
+// few strong months do not extrapolate into runaway demand.
+const ALPHA = 0.3;
+const BETA = 0.1;
+const GAMMA = 0.2;
+const PHI = 0.9;
+
+export const DEFAULT_HORIZON_MONTHS = 6;
+export const MAX_HORIZON_MONTHS = 12;
+
+// Two-sided normal quantiles for the supported prediction intervals
+const Z_SCORES = { 80: 1.2816, 90: 1.6449, 95: 1.96 } as const;
+
+export type ConfidenceLevel = keyof typeof Z_SCORES;
+
+export type ForecastMethod = "seasonal" | "trend" | "average" | "no_history";
+
+export type ForecastPoint = {
+    month: string; // YYYY-MM
+    forecast: number;
+    lower: number;
+    upper: number;
+};
+
+type SeriesForecast = {
+    method: ForecastMethod;
+    historyMonths: number;
+    averageMonthlyDemand: number;
+    points: Omit<ForecastPoint, "month">[];
+};
+
+export type MaterialForecast = Omit<SeriesForecast, "points"> & {
+    points: ForecastPoint[];
+};
+
+// =========
+// Month helpers
+// =========
+
+function monthStart(year: number, month: number) {
+    return new Date(Date.UTC(year, month, 1));
+}
+
+function monthKey(date: Date) {
+    return date.toISOString().slice(0, 7);
+}
+
+function addMonths(date: Date, months: number) {
+    return monthStart(date.getUTCFullYear(), date.getUTCMonth() + months);
+}
+
+function daysInMonth(date: Date) {
+    return new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+}
+
+function resolveHorizon(horizonMonths?: number) {
+    return Math.min(
+        Math.max(horizonMonths || DEFAULT_HORIZON_MONTHS, 1),
+        MAX_HORIZON_MONTHS,
+    );
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+// =========
+// Models
+// =========
+
+type Fit = {
+    method: ForecastMethod;
+    forecast: (h: number) => number; // h = 1 is the first month ahead
+    residualStdDev: number;
+};
+
+function mean(values: number[]) {
+    return values.length > 0
+        ? values.reduce((sum, v) => sum + v, 0) / values.length
+        : 0;
+}
+
+function stdDev(values: number[]) {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return Math.sqrt(
+        values.reduce((sum, v) => sum + (v - m) ** 2, 0) /
+            (values.length - 1),
+    );
+}
+
+// Sum of the damped trend multipliers phi + phi^2 + ... + phi^h
+function dampedSteps(h: number) {
+    return (PHI * (1 - PHI ** h)) / (1 - PHI);
+}
+
+function fitAverage(history: number[]): Fit {
+    const average = mean(history);
+    return {
+        method: "average",
+        forecast: () => average,
+        residualStdDev: stdDev(history),
+    };
+}
+
+// Holt's linear method with a damped trend
+function fitTrend(history: number[]): Fit {
+    let level = history[0];
+    let trend = (history[MIN_TREND_MONTHS - 1] - history[0]) /
+        (MIN_TREND_MONTHS - 1);
+    const errors: number[] = [];
+
+    for (let t = 1; t < history.length; t++) {
+        const predicted = level + PHI * trend;
+        errors.push(history[t] - predicted);
+
+        const previousLevel = level;
+        level = ALPHA * history[t] + (1 - ALPHA) * predicted;
+        trend = BETA * (level - previousLevel) + (1 - BETA) * PHI * trend;
+    }
+
+    return {
+        method: "trend",
+        forecast: (h) => level + dampedSteps(h) * trend,
+        residualStdDev: Math.sqrt(mean(errors.map((e) => e * e))),
+    };
+}
+
+// Additive Holt-Winters with a damped trend, initialised from the first two
+// seasons of history
+function fitSeasonal(history: number[]): Fit {
+    const firstSeason = history.slice(0, SEASON_LENGTH);
+    const secondSeason = history.slice(SEASON_LENGTH, SEASON_LENGTH * 2);
+
+    let level = mean(firstSeason);
+    let trend = (mean(secondSeason) - mean(firstSeason)) / SEASON_LENGTH;
+    const seasonal = firstSeason.map((value) => value - level);
+    const errors: number[] = [];
+
+    for (let t = SEASON_LENGTH; t < history.length; t++) {
+        const season = seasonal[t % SEASON_LENGTH];
+        const predicted = level + PHI * trend + season;
+        errors.push(history[t] - predicted);
+
+        const previousLevel = level;
+        level = ALPHA * (history[t] - season) +
+            (1 - ALPHA) * (previousLevel + PHI * trend);
+        trend = BETA * (level - previousLevel) + (1 - BETA) * PHI * trend;
+        seasonal[t % SEASON_LENGTH] = GAMMA * (history[t] - level) +
+            (1 - GAMMA) * season;
+    }
+
+    const n = history.length;
+    return {
+        method: "seasonal",
+        forecast: (h) =>
+            level + dampedSteps(h) * trend +
+            seasonal[(n + h - 1) % SEASON_LENGTH],
+        residualStdDev: Math.sqrt(mean(errors.map((e) => e * e))),
+    };
+}
+
+/**
+ * Forecast the next `horizon` months from a monthly demand history (oldest
+ * first). Leading months before the first sale are ignored so a newly
+ * launched material is not dragged down by months it did not exist.
+ */
+export function forecastSeries(
+    history: number[],
+    horizon: number,
+    confidenceLevel: ConfidenceLevel = 80,
+): SeriesForecast {
+    const firstSale = history.findIndex((value) => value > 0);
+    const active = firstSale === -1 ? [] : history.slice(firstSale);
+
+    if (active.length === 0) {
+        return {
+            method: "no_history",
+            historyMonths: 0,
+            averageMonthlyDemand: 0,
+            points: Array.from(
+                { length: horizon },
+                () => ({ forecast: 0, lower: 0, upper: 0 }),
+            ),
+        };
+    }
+
+    const fit = active.length >= MIN_SEASONAL_MONTHS
+        ? fitSeasonal(active)
+        : active.length >= MIN_TREND_MONTHS
+        ? fitTrend(active)
+        : fitAverage(active);
+
+    const z = Z_SCORES[confidenceLevel];
+
+    return {
+        method: fit.method,
+        historyMonths: active.length,
+        averageMonthlyDemand: round(mean(active)),
+        points: Array.from({ length: horizon }, (_, i) => {
+            const h = i + 1;
+            const forecast = Math.max(fit.forecast(h), 0);
+            // Uncertainty grows with the square root of the steps ahead
+            const margin = z * fit.residualStdDev * Math.sqrt(h);
+            return {
+                forecast: round(forecast),
+                lower: round(Math.max(forecast - margin, 0)),
+                upper: round(forecast + margin),
+            };
+        }),
+    };
+}
+
+// =========
+// Stock-out projection
+// =========
+
+/**
+ * Walk forward from today consuming forecast demand until stock runs out.
+ * The first forecast month is the current one, so only its remaining days
+ * count. Returns null when stock outlasts the forecast horizon.
+ */
+export function projectStockOutDate(
+    currentStock: number,
+    points: ForecastPoint[],
+    today: Date = new Date(),
+): string | null {
+    const todayIso = today.toISOString().slice(0, 10);
+    if (currentStock <= 0) return todayIso;
+
+    let remaining = currentStock;
+
+    for (const [i, point] of points.entries()) {
+        const start = i === 0
+            ? new Date(`${todayIso}T00:00:00Z`)
+            : new Date(`${point.month}-01T00:00:00Z`);
+        const monthDays = daysInMonth(start);
+        const dailyDemand = point.forecast / monthDays;
+        const days = monthDays - start.getUTCDate() + 1;
+
+        if (dailyDemand > 0 && dailyDemand * days >= remaining) {
+            const daysUntilOut = Math.ceil(remaining / dailyDemand);
+            start.setUTCDate(start.getUTCDate() + daysUntilOut - 1);
+            return start.toISOString().slice(0, 10);
+        }
+        remaining -= dailyDemand * days;
+    }
+
+    return null;
+}
+
+// =========
+// Data access
+// =========
+
+/**
+ * Monthly billed quantity per material over the last complete months,
+ * oldest first and zero-filled. Credit notes net off within their month.
+ */
+export async function getMonthlyDemand(
+    materials: string[] | undefined,
+    today: Date = new Date(),
+) {
+    const currentMonth = monthStart(today.getUTCFullYear(), today.getUTCMonth());
+    const firstMonth = addMonths(currentMonth, -HISTORY_MONTHS);
+    const months = Array.from(
+        { length: HISTORY_MONTHS },
+        (_, i) => monthKey(addMonths(firstMonth, i)),
+    );
+    const monthIndex = new Map(months.map((month, i) => [month, i]));
+
+    const conditions = [
+        gte(invoice.invoiceDate, firstMonth.toISOString().slice(0, 10)),
+        lt(invoice.invoiceDate, currentMonth.toISOString().slice(0, 10)),
+    ];
+    if (materials) {
+        conditions.push(inArray(invoice.material, materials));
+    }
+
+    const rows = await db.select({
+        material: invoice.material,
+        month: sql<
+            string
+        >`to_char(date_trunc('month', ${invoice.invoiceDate}), 'YYYY-MM')`,
+        quantity: sql<number>`coalesce(sum(${invoice.billedQuantity}), 0)`,
+    })
+        .from(invoice)
+        .where(and(...conditions))
+        .groupBy(
+            invoice.material,
+            sql`date_trunc('month', ${invoice.invoiceDate})`,
+        );
+
+    const demand = new Map<string, number[]>();
+    for (const row of rows) {
+        if (!row.material) continue;
+        const index = monthIndex.get(row.month);
+        if (index === undefined) continue;
+
+        const series = demand.get(row.material) ??
+            new Array<number>(HISTORY_MONTHS).fill(0);
+        series[index] = Math.max(Number(row.quantity), 0);
+        demand.set(row.material, series);
+    }
+
+    return demand;
+}
+
+/**
+ * Forecast demand for the given materials, or every material with sales in
+ * the history window when none are given. The first forecast month is the
+ * current month.
+ */
+export async function forecastDemand(params: {
+    materials?: string[];
+    horizonMonths?: number;
+    confidenceLevel?: ConfidenceLevel;
+    today?: Date;
+}): Promise<Map<string, MaterialForecast>> {
+    const today = params.today ?? new Date();
+    const horizon = resolveHorizon(params.horizonMonths);
+    const currentMonth = monthStart(today.getUTCFullYear(), today.getUTCMonth());
+    const forecastMonths = Array.from(
+        { length: horizon },
+        (_, i) => monthKey(addMonths(currentMonth, i)),
+    );
+
+    const demand = await getMonthlyDemand(params.materials, today);
+    const materials = params.materials ?? Array.from(demand.keys());
+
+    return new Map(materials.map((material) => {
+        const series = forecastSeries(
+            demand.get(material) ?? [],
+            horizon,
+            params.confidenceLevel,
+        );
+        return [material, {
+            ...series,
+            points: series.points.map((point, i) => ({
+                month: forecastMonths[i],
+                ...point,
+            })),
+        }];
+    }));
+}
+
+// =========
+// Forecast tool
+// =========
+
+/**
+ * Monthly demand forecast with prediction intervals for a set of materials,
+ * plus when current stock is projected to run out.
+ */
+export async function forecastMaterialDemand(params: {
+    materials: string[];
+    horizonMonths?: number;
+    confidenceLevel?: ConfidenceLevel;
+}) {
+    const today = new Date();
+    const materials = Array.from(new Set(params.materials));
+
+    const [forecasts, stockRows] = await Promise.all([
+        forecastDemand({ ...params, materials, today }),
+        db.select({
+            material: stock.material,
+            description: stock.description2ForTheMaterialGroup,
+            stockInMeters: stock.stockInMeters,
+            replenishmentDate: stock.replenishmentDate,
+        })
+            .from(stock)
+            .where(inArray(stock.material, materials)),
+    ]);
+    const stockMap = new Map(stockRows.map((row) => [row.material, row]));
+
+    const summary = materials.map((material) => {
+        const forecast = forecasts.get(material)!;
+        const stockItem = stockMap.get(material);
+        const currentStock = Number(stockItem?.stockInMeters || 0);
+
+        return {
+            material,
+            description: stockItem?.description ?? null,
+            method: forecast.method,
+            historyMonths: forecast.historyMonths,
+            averageMonthlyDemand: forecast.averageMonthlyDemand,
+            forecastTotal: round(
+                forecast.points.reduce((sum, p) => sum + p.forecast, 0),
+            ),
+            currentStock,
+            projectedStockOutDate: stockItem
+                ? projectStockOutDate(currentStock, forecast.points, today)
+                : null,
+            replenishmentDate: stockItem?.replenishmentDate ?? null,
+        };
+    });
+
+    return {
+        horizonMonths: resolveHorizon(params.horizonMonths),
+        confidenceLevel: params.confidenceLevel ?? 80,
+        summary,
+        forecast: materials.flatMap((material) =>
+            forecasts.get(material)!.points.map((point) => ({
+                material,
+                ...point,
+            }))
+        ),
+    };
+}
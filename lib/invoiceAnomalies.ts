@@ -0,0 +1,354 @@
+import { sql } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { type PeriodInput, resolveDateRange } from "./periods";
+
+// Invoice anomaly scanner: rule-based checks for data entry errors and odd
+// deals. Each check runs as its own query over the scanned date range and
+// every flagged line carries a severity and a human-readable reason.
+
+// =========
+// Configuration
+// =========
+
+export const ANOMALY_TYPES = [
+    "price_outlier",
+    "negative_quantity",
+    "duplicate_line",
+    "amount_mismatch",
+] as const;
+
+export type AnomalyType = (typeof ANOMALY_TYPES)[number];
+
+export const ANOMALY_SEVERITIES = ["high", "medium", "low"] as const;
+
+export type AnomalySeverity = (typeof ANOMALY_SEVERITIES)[number];
+
+// Scanned range when no dates are given
+const DEFAULT_SCAN_DAYS = 90;
+
+// Lines fetched per check, so one noisy rule cannot flood the result
+const MAX_ROWS_PER_CHECK = 1000;
+
+// A material needs this many priced lines before its median price is trusted
+const MIN_PRICE_SAMPLES = 5;
+
+// Relative distance from the material's median unit price
+const PRICE_DEVIATION = { medium: 0.25, high: 0.5 };
+
+// Net amount vs price x quantity - discount, ignoring rounding below 1 INR
+const MISMATCH_TOLERANCE_INR = 1;
+const MISMATCH_DEVIATION = { medium: 0.005, high: 0.1 };
+
+export type InvoiceAnomaly = {
+    type: AnomalyType;
+    severity: AnomalySeverity;
+    reason: string;
+    invoiceId: number;
+    billingDocument: string | null;
+    item: number | null;
+    invoiceDate: string | null;
+    material: string | null;
+    billToParty: string | null;
+    basicPrice: number | null;
+    billedQuantity: number | null;
+    discountAmount: number | null;
+    netAmountInr: number | null;
+};
+
+type LineRow = {
+    id: number;
+    billing_document: string | null;
+    item: number | null;
+    invoice_date: string | null;
+    material: string | null;
+    bill_to_party: string | null;
+    basic_price: string | null;
+    billed_quantity: string | null;
+    discount_amount: string | null;
+    net_amount_inr: string | null;
+};
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = {
+    high: 0,
+    medium: 1,
+    low: 2,
+};
+
+const numberFormatter = new Intl.NumberFormat("en-IN", {
+    maximumFractionDigits: 2,
+});
+
+function toNumberOrNull(value: string | null) {
+    return value === null ? null : Number(value);
+}
+
+function toAnomaly(
+    row: LineRow,
+    type: AnomalyType,
+    severity: AnomalySeverity,
+    reason: string,
+): InvoiceAnomaly {
+    return {
+        type,
+        severity,
+        reason,
+        invoiceId: row.id,
+        billingDocument: row.billing_document,
+        item: row.item,
+        invoiceDate: row.invoice_date,
+        material: row.material,
+        billToParty: row.bill_to_party,
+        basicPrice: toNumberOrNull(row.basic_price),
+        billedQuantity: toNumberOrNull(row.billed_quantity),
+        discountAmount: toNumberOrNull(row.discount_amount),
+        netAmountInr: toNumberOrNull(row.net_amount_inr),
+    };
+}
+
+const lineColumns = sql`
+    ${invoice.id} as id,
+    ${invoice.billingDocument} as billing_document,
+    ${invoice.item} as item,
+    ${invoice.invoiceDate}::text as invoice_date,
+    ${invoice.material} as material,
+    ${invoice.billToParty} as bill_to_party,
+    ${invoice.basicPrice} as basic_price,
+    ${invoice.billedQuantity} as billed_quantity,
+    ${invoice.discountAmount} as discount_amount,
+    ${invoice.netAmountInr} as net_amount_inr
+`;
+
+type ScanRange = { fromDate: string; toDate: string };
+
+// basicPrice is in the document currency while netAmountInr is in INR, so the
+// price checks only look at INR documents
+const isInr = sql`${invoice.documentCurrency} = 'INR'`;
+
+function inRange(range: ScanRange) {
+    return sql`${invoice.invoiceDate} between ${range.fromDate} and ${range.toDate}`;
+}
+
+// =========
+// Checks
+// =========
+
+/**
+ * Unit prices far from the material's median price in the same range, on
+ * INR documents.
+ */
+async function findPriceOutliers(range: ScanRange) {
+    const result = await db.execute<LineRow & { median_price: number }>(sql`
+        with prices as (
+            select ${invoice.material} as material,
+                percentile_cont(0.5) within group (order by ${invoice.basicPrice}) as median_price
+            from ${invoice}
+            where ${inRange(range)} and ${isInr} and ${invoice.basicPrice} > 0
+            group by ${invoice.material}
+            having count(*) >= ${MIN_PRICE_SAMPLES}
+        )
+        select ${lineColumns}, prices.median_price
+        from ${invoice}
+        join prices on prices.material = ${invoice.material}
+        where ${inRange(range)}
+            and ${isInr}
+            and ${invoice.basicPrice} > 0
+            and abs(${invoice.basicPrice} / prices.median_price - 1) >= ${PRICE_DEVIATION.medium}
+        order by abs(${invoice.basicPrice} / prices.median_price - 1) desc
+        limit ${MAX_ROWS_PER_CHECK}
+    `);
+
+    return result.rows.map((row) => {
+        const median = Number(row.median_price);
+        const deviation = Number(row.basic_price) / median - 1;
+        return toAnomaly(
+            row,
+            "price_outlier",
+            Math.abs(deviation) >= PRICE_DEVIATION.high ? "high" : "medium",
+            `Unit price ${numberFormatter.format(Number(row.basic_price))} is ${
+                Math.round(Math.abs(deviation) * 100)
+            }% ${deviation < 0 ? "below" : "above"} the material's median of ${
+                numberFormatter.format(median)
+            }`,
+        );
+    });
+}
+
+/**
+ * Negative quantities. A negative net amount alongside suggests a return
+ * booked that way on purpose; a positive one does not add up.
+ */
+async function findNegativeQuantities(range: ScanRange) {
+    const result = await db.execute<LineRow>(sql`
+        select ${lineColumns}
+        from ${invoice}
+        where ${inRange(range)} and ${invoice.billedQuantity} < 0
+        order by ${invoice.invoiceDate} desc
+        limit ${MAX_ROWS_PER_CHECK}
+    `);
+
+    return result.rows.map((row) => {
+        const isReturn = Number(row.net_amount_inr) <= 0;
+        return toAnomaly(
+            row,
+            "negative_quantity",
+            isReturn ? "low" : "high",
+            isReturn
+                ? `Negative quantity ${row.billed_quantity} with a negative net amount, likely a return`
+                : `Negative quantity ${row.billed_quantity} but a positive net amount of ${
+                    numberFormatter.format(Number(row.net_amount_inr))
+                }`,
+        );
+    });
+}
+
+/**
+ * Billing document + item pairs that occur more than once.
+ */
+async function findDuplicateLines(range: ScanRange) {
+    const result = await db.execute<LineRow & { occurrences: number }>(sql`
+        select ${lineColumns}, duplicates.occurrences
+        from ${invoice}
+        join (
+            select ${invoice.billingDocument} as billing_document,
+                ${invoice.item} as item,
+                count(*)::int as occurrences
+            from ${invoice}
+            where ${inRange(range)}
+                and ${invoice.billingDocument} is not null
+                and ${invoice.item} is not null
+            group by ${invoice.billingDocument}, ${invoice.item}
+            having count(*) > 1
+        ) duplicates on duplicates.billing_document = ${invoice.billingDocument}
+            and duplicates.item = ${invoice.item}
+        where ${inRange(range)}
+        order by ${invoice.billingDocument}, ${invoice.item}, ${invoice.id}
+        limit ${MAX_ROWS_PER_CHECK}
+    `);
+
+    return result.rows.map((row) =>
+        toAnomaly(
+            row,
+            "duplicate_line",
+            "high",
+            `Billing document ${row.billing_document} item ${row.item} appears ${row.occurrences} times`,
+        )
+    );
+}
+
+/**
+ * Net amounts that differ from price x quantity - discount, on INR documents.
+ */
+async function findAmountMismatches(range: ScanRange) {
+    const expected = sql`(${invoice.basicPrice} * ${invoice.billedQuantity} - coalesce(${invoice.discountAmount}, 0))`;
+    const difference = sql`abs(${invoice.netAmountInr} - ${expected})`;
+
+    const result = await db.execute<LineRow & { expected_amount: string }>(sql`
+        select ${lineColumns}, ${expected} as expected_amount
+        from ${invoice}
+        where ${inRange(range)}
+            and ${isInr}
+            and ${invoice.basicPrice} is not null
+            and ${invoice.billedQuantity} is not null
+            and ${invoice.netAmountInr} is not null
+            and ${difference} > ${MISMATCH_TOLERANCE_INR}
+            and ${difference} > abs(${expected}) * ${MISMATCH_DEVIATION.medium}
+        order by ${difference} desc
+        limit ${MAX_ROWS_PER_CHECK}
+    `);
+
+    return result.rows.map((row) => {
+        const expectedAmount = Number(row.expected_amount);
+        const net = Number(row.net_amount_inr);
+        const deviation = expectedAmount !== 0
+            ? Math.abs(net - expectedAmount) / Math.abs(expectedAmount)
+            : Infinity;
+        return toAnomaly(
+            row,
+            "amount_mismatch",
+            deviation >= MISMATCH_DEVIATION.high ? "high" : "medium",
+            `Net amount ${numberFormatter.format(net)} differs from price x quantity - discount = ${
+                numberFormatter.format(expectedAmount)
+            } by ${numberFormatter.format(Math.abs(net - expectedAmount))}`,
+        );
+    });
+}
+
+const CHECKS: Record<
+    AnomalyType,
+    (range: ScanRange) => Promise<InvoiceAnomaly[]>
+> = {
+    price_outlier: findPriceOutliers,
+    negative_quantity: findNegativeQuantities,
+    duplicate_line: findDuplicateLines,
+    amount_mismatch: findAmountMismatches,
+};
+
+// =========
+// Scanner
+// =========
+
+/**
+ * Run the selected checks (all by default) over a date range, defaulting to
+ * the last 90 days. Anomalies are ordered by severity, then newest first.
+ */
+export async function scanInvoiceAnomalies(params: {
+    types?: AnomalyType[];
+    minSeverity?: AnomalySeverity;
+    limit?: number;
+    fromDate?: string | null;
+    toDate?: string | null;
+    period?: PeriodInput | null;
+}) {
+    const today = new Date();
+    const defaultFrom = new Date(today);
+    defaultFrom.setUTCDate(defaultFrom.getUTCDate() - DEFAULT_SCAN_DAYS);
+
+    const resolved = resolveDateRange(params);
+    const range = {
+        fromDate: resolved.fromDate ?? defaultFrom.toISOString().slice(0, 10),
+        toDate: resolved.toDate ?? today.toISOString().slice(0, 10),
+    };
+
+    const types = params.types?.length ? params.types : [...ANOMALY_TYPES];
+    const maxRank = SEVERITY_RANK[params.minSeverity ?? "low"];
+
+    // One check at a time; each scans the whole range
+    const found: InvoiceAnomaly[][] = [];
+    for (const type of types) {
+        found.push(await CHECKS[type](range));
+    }
+
+    const anomalies = found
+        .flat()
+        .filter((anomaly) => SEVERITY_RANK[anomaly.severity] <= maxRank)
+        .sort((a, b) =>
+            SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+            (b.invoiceDate ?? "").localeCompare(a.invoiceDate ?? "")
+        );
+
+    const summary = types.map((type, i) => {
+        const ofType = anomalies.filter((anomaly) => anomaly.type === type);
+        return {
+            type,
+            high: ofType.filter((a) => a.severity === "high").length,
+            medium: ofType.filter((a) => a.severity === "medium").length,
+            low: ofType.filter((a) => a.severity === "low").length,
+            // The check stopped at its row cap, so there may be more
+            truncated: found[i].length >= MAX_ROWS_PER_CHECK,
+        };
+    });
+
+    return {
+        fromDate: range.fromDate,
+        toDate: range.toDate,
+        totalAnomalies: anomalies.length,
+        summary,
+        anomalies: anomalies.slice(0, params.limit || 100),
+    };
+}
+
+export type InvoiceAnomalyReport = Awaited<
+    ReturnType<typeof scanInvoiceAnomalies>
+>;
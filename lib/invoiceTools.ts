@@ -1,7 +1,8 @@
-import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { and, desc, eq, gte, ilike, lte, sql } from "drizzle-orm";
 
 import { db } from "@/drizzle/db";
 import { invoice } from "@/drizzle/schema/invoice-schema";
+import { type PeriodInput, resolveDateRange } from "./periods";
 
 // S3 bucket base URL for invoice PDFs
 const INVOICE_PDF_BUCKET_URL =
@@ -9,19 +10,11 @@ const INVOICE_PDF_BUCKET_URL =
 
 type DateInput = string | Date;
 
-// `invoiceDate` is stored as a DATE column which Drizzle maps to `string`.
-// We normalize all inputs to a simple `YYYY-MM-DD` string so comparisons are type-safe.
-function normalizeDate(
-    value: DateInput | null | undefined,
-): string | undefined {
-    if (!value) return undefined;
-
-    const asDate = value instanceof Date ? value : new Date(value);
-    if (Number.isNaN(asDate.getTime())) return undefined;
-
-    // Convert to date-only ISO (no time) to match typical DATE semantics.
-    return asDate.toISOString().slice(0, 10);
-}
+// Items bought together are counted per billing document (one "basket")
+const BASKET_ITEM_COLUMNS = {
+    design: invoice.design,
+    material: invoice.material,
+};
 
 type Pagination = {
     limit?: number;
@@ -79,6 +72,7 @@ export async function listCustomerInvoices(
         billToParty?: string;
         fromDate?: DateInput | null;
         toDate?: DateInput | null;
+        period?: PeriodInput | null;
     } & Pagination,
 ) {
     const { limit, offset } = getSafePagination(params);
@@ -92,8 +86,7 @@ export async function listCustomerInvoices(
         filters.push(eq(invoice.billToParty, params.billToParty));
     }
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -124,6 +117,7 @@ export async function listMaterialInvoices(
         regionZone?: string;
         fromDate?: DateInput | null;
         toDate?: DateInput | null;
+        period?: PeriodInput | null;
     } & Pagination,
 ) {
     const { limit, offset } = getSafePagination(params);
@@ -145,8 +139,7 @@ export async function listMaterialInvoices(
         filters.push(eq(invoice.regionZone, params.regionZone));
     }
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -174,6 +167,7 @@ export async function getCustomerAmountSummary(params: {
     billToParty?: string;
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
 }) {
     const filters = [];
 
@@ -185,8 +179,7 @@ export async function getCustomerAmountSummary(params: {
         filters.push(eq(invoice.billToParty, params.billToParty));
     }
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -277,11 +270,16 @@ export async function listCustomerDistinctValues() {
 export async function getInvoiceKpis(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
+    regionZone?: string;
 }) {
     const filters = [];
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    if (params.regionZone) {
+        filters.push(eq(invoice.regionZone, params.regionZone));
+    }
+
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -325,12 +323,17 @@ export async function getInvoiceKpis(params: {
 export async function getTopCustomersByRevenue(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
     limit?: number;
+    agentCode?: string;
 }) {
     const filters = [];
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    if (params.agentCode) {
+        filters.push(eq(invoice.agentCode, params.agentCode));
+    }
+
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -370,11 +373,21 @@ export async function getTopCustomersByRevenue(params: {
 export async function getRevenueByRegion(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
+    agentCode?: string;
+    regionZone?: string;
 }) {
     const filters = [];
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    if (params.agentCode) {
+        filters.push(eq(invoice.agentCode, params.agentCode));
+    }
+
+    if (params.regionZone) {
+        filters.push(eq(invoice.regionZone, params.regionZone));
+    }
+
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -408,11 +421,11 @@ export async function getRevenueByRegion(params: {
 export async function getAgentPerformance(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
 }) {
     const filters = [];
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -445,14 +458,114 @@ export async function getAgentPerformance(params: {
     return rows;
 }
 
+export async function getBrokerPerformance(params: {
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+}) {
+    // Invoices without a broker were sold direct and are not broker business
+    const filters = [sql`${invoice.brokerCode} is not null`];
+
+    const { fromDate, toDate } = resolveDateRange(params);
+
+    if (fromDate) {
+        filters.push(gte(invoice.invoiceDate, fromDate));
+    }
+
+    if (toDate) {
+        filters.push(lte(invoice.invoiceDate, toDate));
+    }
+
+    const rows = await db
+        .select({
+            brokerCode: invoice.brokerCode,
+            brokerName: invoice.brokerName,
+            totalNetAmountInr: sql<
+                number
+            >`coalesce(sum(${invoice.netAmountInr}), 0)`,
+            totalGrossAmount: sql<
+                number
+            >`coalesce(sum(${invoice.grossAmount}), 0)`,
+            customerCount: sql<
+                number
+            >`count(distinct ${invoice.billToPartyCode})`,
+            invoiceCount: sql<number>`count(*)`,
+        })
+        .from(invoice)
+        .where(and(...filters))
+        .groupBy(invoice.brokerCode, invoice.brokerName)
+        .orderBy(desc(sql`coalesce(sum(${invoice.netAmountInr}), 0)`));
+
+    return rows;
+}
+
+/**
+ * Map brokers to the customers whose invoices were routed through them.
+ * Pass `brokerCode` to list the customers of a single broker.
+ */
+export async function getBrokerCustomers(params: {
+    brokerCode?: string;
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+    limit?: number;
+}) {
+    const filters = [sql`${invoice.brokerCode} is not null`];
+
+    if (params.brokerCode) {
+        filters.push(eq(invoice.brokerCode, params.brokerCode));
+    }
+
+    const { fromDate, toDate } = resolveDateRange(params);
+
+    if (fromDate) {
+        filters.push(gte(invoice.invoiceDate, fromDate));
+    }
+
+    if (toDate) {
+        filters.push(lte(invoice.invoiceDate, toDate));
+    }
+
+    const limit = params.limit && params.limit > 0
+        ? Math.min(params.limit, 200)
+        : 50;
+
+    const rows = await db
+        .select({
+            brokerCode: invoice.brokerCode,
+            brokerName: invoice.brokerName,
+            billToPartyCode: invoice.billToPartyCode,
+            billToParty: invoice.billToParty,
+            billToPartyCity: invoice.billToPartyCity,
+            totalNetAmountInr: sql<
+                number
+            >`coalesce(sum(${invoice.netAmountInr}), 0)`,
+            invoiceCount: sql<number>`count(*)`,
+            lastInvoiceDate: sql<string>`max(${invoice.invoiceDate})`,
+        })
+        .from(invoice)
+        .where(and(...filters))
+        .groupBy(
+            invoice.brokerCode,
+            invoice.brokerName,
+            invoice.billToPartyCode,
+            invoice.billToParty,
+            invoice.billToPartyCity,
+        )
+        .orderBy(desc(sql`coalesce(sum(${invoice.netAmountInr}), 0)`))
+        .limit(limit);
+
+    return rows;
+}
+
 export async function getFabricPerformanceByEndUse(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
 }) {
     const filters = [];
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -494,11 +607,11 @@ export async function getFabricPerformanceByEndUse(params: {
 export async function getPatternPerformance(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
 }) {
     const filters = [];
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -541,35 +654,185 @@ export async function getPatternPerformance(params: {
     return rows;
 }
 
+type BasketPairRow = {
+    item_a: string;
+    item_b: string;
+    baskets_together: number;
+    baskets_a: number;
+    baskets_b: number;
+    total_baskets: number;
+};
+
+/**
+ * Market basket analysis: pairs of designs or materials that appear on the
+ * same billing document. For a pair A, B:
+ * - support: share of all baskets containing both
+ * - confidence A -> B: share of baskets with A that also contain B
+ * - lift: how much more often they occur together than if independent
+ */
+export async function getCoPurchasePairs(params: {
+    itemType?: keyof typeof BASKET_ITEM_COLUMNS;
+    item?: string;
+    regionZone?: string;
+    endUse?: string;
+    minBaskets?: number;
+    sortBy?: "lift" | "support" | "confidence";
+    limit?: number;
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+}) {
+    const itemType = params.itemType ?? "design";
+    const itemColumn = BASKET_ITEM_COLUMNS[itemType];
+    const minBaskets = Math.max(params.minBaskets ?? 3, 1);
+    const limit = Math.min(params.limit || 50, 200);
+
+    const filters = [
+        sql`${invoice.billingDocument} is not null`,
+        sql`${itemColumn} is not null`,
+    ];
+
+    const { fromDate, toDate } = resolveDateRange(params);
+
+    if (fromDate) {
+        filters.push(gte(invoice.invoiceDate, fromDate));
+    }
+
+    if (toDate) {
+        filters.push(lte(invoice.invoiceDate, toDate));
+    }
+
+    if (params.regionZone) {
+        filters.push(ilike(invoice.regionZone, `%${params.regionZone}%`));
+    }
+
+    if (params.endUse) {
+        filters.push(ilike(invoice.endUse, `%${params.endUse}%`));
+    }
+
+    const itemFilter = params.item
+        ? sql`where pairs.item_a = ${params.item} or pairs.item_b = ${params.item}`
+        : sql``;
+
+    // Items in fewer than minBaskets baskets cannot form a qualifying pair,
+    // so they are dropped before the self-join
+    const result = await db.execute<BasketPairRow>(sql`
+        with baskets as (
+            select distinct ${invoice.billingDocument} as doc,
+                ${itemColumn} as item
+            from ${invoice}
+            where ${and(...filters)}
+        ),
+        totals as (
+            select count(distinct doc)::int as total_baskets from baskets
+        ),
+        item_counts as (
+            select item, count(*)::int as baskets
+            from baskets
+            group by item
+            having count(*) >= ${minBaskets}
+        ),
+        frequent as (
+            select baskets.doc, baskets.item
+            from baskets
+            join item_counts on item_counts.item = baskets.item
+        ),
+        pairs as (
+            select a.item as item_a, b.item as item_b,
+                count(*)::int as baskets_together
+            from frequent a
+            join frequent b on b.doc = a.doc and b.item > a.item
+            group by a.item, b.item
+            having count(*) >= ${minBaskets}
+        )
+        select pairs.*, count_a.baskets as baskets_a,
+            count_b.baskets as baskets_b, totals.total_baskets
+        from pairs
+        join item_counts count_a on count_a.item = pairs.item_a
+        join item_counts count_b on count_b.item = pairs.item_b
+        cross join totals
+        ${itemFilter}
+    `);
+
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+
+    const pairs = result.rows.map((row) => {
+        const together = Number(row.baskets_together);
+        const total = Number(row.total_baskets);
+        const confidenceAToB = together / Number(row.baskets_a);
+        const confidenceBToA = together / Number(row.baskets_b);
+        return {
+            itemA: row.item_a,
+            itemB: row.item_b,
+            basketsTogether: together,
+            basketsWithA: Number(row.baskets_a),
+            basketsWithB: Number(row.baskets_b),
+            support: round(together / total),
+            confidenceAToB: round(confidenceAToB),
+            confidenceBToA: round(confidenceBToA),
+            lift: round(confidenceAToB / (Number(row.baskets_b) / total)),
+        };
+    });
+
+    const sortValue = (pair: (typeof pairs)[number]) =>
+        params.sortBy === "support"
+            ? pair.support
+            : params.sortBy === "confidence"
+            ? Math.max(pair.confidenceAToB, pair.confidenceBToA)
+            : pair.lift;
+
+    return {
+        itemType,
+        // Only known when at least one pair qualifies
+        totalBaskets: result.rows[0]?.total_baskets ?? null,
+        minBaskets,
+        pairs: pairs
+            .sort((a, b) =>
+                sortValue(b) - sortValue(a) ||
+                b.basketsTogether - a.basketsTogether
+            )
+            .slice(0, limit),
+    };
+}
+
 export async function listAdminDistinctValues() {
-    const [regions, agents, endUses, ainocularDesigns] = await Promise.all([
-        db
-            .selectDistinct({
-                regionZone: invoice.regionZone,
-            })
-            .from(invoice),
-        db
-            .selectDistinct({
-                agentCode: invoice.agentCode,
-                agentName: invoice.agentName,
-            })
-            .from(invoice),
-        db
-            .selectDistinct({
-                endUse: invoice.endUse,
-            })
-            .from(invoice),
-        db
-            .selectDistinct({
-                ainocularDesign: invoice.ainocularDesign,
-                ainocularDesignDescription: invoice.ainocularDesignDescription,
-            })
-            .from(invoice),
-    ]);
+    const [regions, agents, brokers, endUses, ainocularDesigns] =
+        await Promise.all([
+            db
+                .selectDistinct({
+                    regionZone: invoice.regionZone,
+                })
+                .from(invoice),
+            db
+                .selectDistinct({
+                    agentCode: invoice.agentCode,
+                    agentName: invoice.agentName,
+                })
+                .from(invoice),
+            db
+                .selectDistinct({
+                    brokerCode: invoice.brokerCode,
+                    brokerName: invoice.brokerName,
+                })
+                .from(invoice),
+            db
+                .selectDistinct({
+                    endUse: invoice.endUse,
+                })
+                .from(invoice),
+            db
+                .selectDistinct({
+                    ainocularDesign: invoice.ainocularDesign,
+                    ainocularDesignDescription:
+                        invoice.ainocularDesignDescription,
+                })
+                .from(invoice),
+        ]);
 
     return {
         regions,
         agents,
+        brokers,
         endUses,
         ainocularDesigns,
     };
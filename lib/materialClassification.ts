@@ -0,0 +1,358 @@
+import { and, desc, eq, gte, inArray, lt, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+import { after } from "next/server";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import {
+    type AbcClass,
+    materialClassification,
+    materialClassificationRun,
+    type XyzClass,
+} from "@/drizzle/schema/material-classification-schema";
+import { getSessionUser } from "./session";
+
+// ABC x XYZ segmentation of the SKU base. ABC ranks materials by their share
+// of revenue (A = the top 80%, B = the next 15%, C = the tail); XYZ ranks them
+// by how steady monthly demand is (X = steady, Y = variable, Z = erratic).
+
+// =========
+// Configuration
+// =========
+
+const CLASSIFICATION_MONTHS = 12;
+
+// Cumulative revenue share (percent) reached before a material enters B / C
+const ABC_THRESHOLDS = { A: 80, B: 95 };
+
+// Coefficient of variation of monthly quantity
+const XYZ_THRESHOLDS = { X: 0.5, Y: 1 };
+
+const INSERT_BATCH_SIZE = 1000;
+
+// Stored classes older than this are recomputed after the next read
+const MAX_CLASSIFICATION_AGE_DAYS = 7;
+
+type MaterialSales = {
+    material: string;
+    revenue: number;
+    monthlyQuantity: number[];
+};
+
+function round(value: number, digits = 2) {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+// =========
+// Classification
+// =========
+
+/**
+ * Assign ABC and XYZ classes. Only materials with positive revenue are
+ * classified. A material is A while the revenue ranked above it is under
+ * 80% of the total, so the top seller is always A.
+ */
+export function classifyMaterials(sales: MaterialSales[]) {
+    const ranked = sales
+        .filter((s) => s.revenue > 0)
+        .sort((a, b) => b.revenue - a.revenue);
+    const total = ranked.reduce((sum, s) => sum + s.revenue, 0);
+
+    let cumulative = 0;
+
+    return ranked.map((s) => {
+        const shareBefore = (cumulative / total) * 100;
+        cumulative += s.revenue;
+
+        const abcClass: AbcClass = shareBefore < ABC_THRESHOLDS.A
+            ? "A"
+            : shareBefore < ABC_THRESHOLDS.B
+            ? "B"
+            : "C";
+
+        const n = s.monthlyQuantity.length;
+        const mean = s.monthlyQuantity.reduce((sum, q) => sum + q, 0) / n;
+        const coefficientOfVariation = mean > 0
+            ? Math.sqrt(
+                s.monthlyQuantity.reduce((sum, q) => sum + (q - mean) ** 2, 0) /
+                    n,
+            ) / mean
+            : null;
+
+        const xyzClass: XyzClass = coefficientOfVariation === null
+            ? "Z"
+            : coefficientOfVariation <= XYZ_THRESHOLDS.X
+            ? "X"
+            : coefficientOfVariation <= XYZ_THRESHOLDS.Y
+            ? "Y"
+            : "Z";
+
+        return {
+            material: s.material,
+            abcClass,
+            xyzClass,
+            revenue: round(s.revenue),
+            revenueShare: round((s.revenue / total) * 100, 4),
+            cumulativeShare: round((cumulative / total) * 100, 4),
+            coefficientOfVariation: coefficientOfVariation === null
+                ? null
+                : round(coefficientOfVariation, 4),
+        };
+    });
+}
+
+/**
+ * Revenue and zero-filled monthly quantity per material over the last
+ * twelve complete months.
+ */
+async function getMaterialSales(today: Date): Promise<MaterialSales[]> {
+    const currentMonth = new Date(
+        Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1),
+    );
+    const firstMonth = new Date(
+        Date.UTC(
+            today.getUTCFullYear(),
+            today.getUTCMonth() - CLASSIFICATION_MONTHS,
+            1,
+        ),
+    );
+    const firstMonthIndex = firstMonth.getUTCFullYear() * 12 +
+        firstMonth.getUTCMonth();
+
+    const rows = await db.select({
+        material: invoice.material,
+        month: sql<
+            string
+        >`to_char(date_trunc('month', ${invoice.invoiceDate}), 'YYYY-MM')`,
+        revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
+        quantity: sql<number>`coalesce(sum(${invoice.billedQuantity}), 0)`,
+    })
+        .from(invoice)
+        .where(and(
+            gte(invoice.invoiceDate, firstMonth.toISOString().slice(0, 10)),
+            lt(invoice.invoiceDate, currentMonth.toISOString().slice(0, 10)),
+        ))
+        .groupBy(
+            invoice.material,
+            sql`date_trunc('month', ${invoice.invoiceDate})`,
+        );
+
+    const sales = new Map<string, MaterialSales>();
+    for (const row of rows) {
+        if (!row.material) continue;
+
+        const entry = sales.get(row.material) ?? {
+            material: row.material,
+            revenue: 0,
+            monthlyQuantity: new Array<number>(CLASSIFICATION_MONTHS).fill(0),
+        };
+        const [year, month] = row.month.split("-").map(Number);
+        const index = year * 12 + (month - 1) - firstMonthIndex;
+
+        entry.revenue += Number(row.revenue);
+        if (index >= 0 && index < CLASSIFICATION_MONTHS) {
+            entry.monthlyQuantity[index] = Math.max(Number(row.quantity), 0);
+        }
+        sales.set(row.material, entry);
+    }
+
+    return Array.from(sales.values());
+}
+
+// =========
+// Persistence
+// =========
+
+type ClassificationRun = typeof materialClassificationRun.$inferSelect;
+
+async function getLatestRun(): Promise<ClassificationRun | null> {
+    const [run] = await db.select()
+        .from(materialClassificationRun)
+        .orderBy(desc(materialClassificationRun.computedAt))
+        .limit(1);
+
+    return run ?? null;
+}
+
+function isFresh(run: ClassificationRun | null) {
+    const maxAgeMs = MAX_CLASSIFICATION_AGE_DAYS * 24 * 60 * 60 * 1000;
+    return run !== null && Date.now() - run.computedAt.getTime() < maxAgeMs;
+}
+
+/**
+ * Recompute every material's class from invoice history and replace the
+ * stored classification. Runs hold a transaction-level advisory lock, so
+ * concurrent callers wait for each other; unless `force` is set, a caller
+ * that finds a fresh run once it has the lock keeps that run.
+ */
+export async function recomputeMaterialClassification(
+    options: { force?: boolean } = {},
+) {
+    return await db.transaction(async (tx) => {
+        await tx.execute(
+            sql`select pg_advisory_xact_lock(hashtext('material_classification'))`,
+        );
+
+        if (!options.force) {
+            const [latest] = await tx.select()
+                .from(materialClassificationRun)
+                .orderBy(desc(materialClassificationRun.computedAt))
+                .limit(1);
+            if (latest && isFresh(latest)) return latest;
+        }
+
+        const computedAt = new Date();
+        const rows = classifyMaterials(await getMaterialSales(computedAt));
+
+        await tx.delete(materialClassification);
+
+        for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+            await tx.insert(materialClassification).values(
+                rows.slice(i, i + INSERT_BATCH_SIZE).map((row) => ({
+                    ...row,
+                    revenue: String(row.revenue),
+                    revenueShare: String(row.revenueShare),
+                    cumulativeShare: String(row.cumulativeShare),
+                    coefficientOfVariation: row.coefficientOfVariation === null
+                        ? null
+                        : String(row.coefficientOfVariation),
+                    computedAt,
+                })),
+            );
+        }
+
+        const [run] = await tx.insert(materialClassificationRun)
+            .values({ computedAt, materialsClassified: rows.length })
+            .returning();
+        return run;
+    });
+}
+
+/**
+ * Schedule a recompute for after the current response when the stored
+ * classification is missing or older than MAX_CLASSIFICATION_AGE_DAYS.
+ * Readers keep using the stored classes in the meantime.
+ */
+function refreshWhenStale(latest: ClassificationRun | null) {
+    if (isFresh(latest)) return;
+
+    after(async () => {
+        try {
+            await recomputeMaterialClassification();
+        } catch (error) {
+            console.error("Material classification refresh failed:", error);
+        }
+    });
+}
+
+/**
+ * Combined class ("AX", "CZ", ...) per material for annotating other
+ * reports. Materials without sales in the window are absent.
+ */
+export async function getClassificationMap(materials?: string[]) {
+    if (materials && materials.length === 0) return new Map<string, string>();
+
+    refreshWhenStale(await getLatestRun());
+
+    const rows = await db.select({
+        material: materialClassification.material,
+        abcClass: materialClassification.abcClass,
+        xyzClass: materialClassification.xyzClass,
+    })
+        .from(materialClassification)
+        .where(
+            materials
+                ? inArray(materialClassification.material, materials)
+                : undefined,
+        );
+
+    return new Map(
+        rows.map((row) => [row.material, `${row.abcClass}${row.xyzClass}`]),
+    );
+}
+
+// =========
+// Classification tool
+// =========
+
+/**
+ * The ABC x XYZ matrix with material counts and revenue per cell, plus the
+ * classified materials. The classification is computed on first use and
+ * refreshed in the background once stale; `refresh` forces a recompute and
+ * is admin only.
+ */
+export async function getMaterialClassification(params: {
+    abcClass?: AbcClass;
+    xyzClass?: XyzClass;
+    refresh?: boolean;
+    limit?: number;
+}) {
+    let run: ClassificationRun | null;
+
+    if (params.refresh) {
+        const sessionUser = await getSessionUser(await headers());
+
+        if (!sessionUser || sessionUser.role !== "admin") {
+            return {
+                success: false,
+                error: "Only admins can refresh the material classification.",
+                data: null,
+            };
+        }
+
+        run = await recomputeMaterialClassification({ force: true });
+    } else {
+        // The very first classification is computed right away; later
+        // stale ones are refreshed in the background
+        run = await getLatestRun() ?? await recomputeMaterialClassification();
+        refreshWhenStale(run);
+    }
+
+    const matrix = await db.select({
+        abcClass: materialClassification.abcClass,
+        xyzClass: materialClassification.xyzClass,
+        materials: sql<number>`count(*)::int`,
+        revenue: sql<number>`coalesce(sum(${materialClassification.revenue}), 0)`,
+        revenueShare: sql<
+            number
+        >`round(coalesce(sum(${materialClassification.revenueShare}), 0), 2)`,
+    })
+        .from(materialClassification)
+        .groupBy(materialClassification.abcClass, materialClassification.xyzClass)
+        .orderBy(materialClassification.abcClass, materialClassification.xyzClass);
+
+    const conditions = [];
+    if (params.abcClass) {
+        conditions.push(eq(materialClassification.abcClass, params.abcClass));
+    }
+    if (params.xyzClass) {
+        conditions.push(eq(materialClassification.xyzClass, params.xyzClass));
+    }
+
+    const materials = await db.select({
+        material: materialClassification.material,
+        abcClass: materialClassification.abcClass,
+        xyzClass: materialClassification.xyzClass,
+        revenue: materialClassification.revenue,
+        revenueShare: materialClassification.revenueShare,
+        coefficientOfVariation: materialClassification.coefficientOfVariation,
+    })
+        .from(materialClassification)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(materialClassification.revenue))
+        .limit(params.limit || 50);
+
+    return {
+        success: true,
+        data: {
+            computedAt: run.computedAt.toISOString(),
+            windowMonths: CLASSIFICATION_MONTHS,
+            matrix: matrix.map((cell) => ({
+                class: `${cell.abcClass}${cell.xyzClass}`,
+                ...cell,
+            })),
+            materials,
+        },
+    };
+}
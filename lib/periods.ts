@@ -0,0 +1,242 @@
+import { and, gte, lte, type SQL, sql } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+
+// Shared period engine for every time-based tool. The business reports on
+// Indian fiscal years which run April to March; FY2024 ("FY24") is
+// 1 April 2023 to 31 March 2024 and its Q1 is April to June 2023.
+
+// =========
+// Types
+// =========
+
+export const PERIOD_TYPES = [
+    "fiscal_year",
+    "fiscal_quarter",
+    "month",
+    "custom",
+] as const;
+
+export type PeriodType = (typeof PERIOD_TYPES)[number];
+
+export type PeriodInput = {
+    type: PeriodType;
+    fiscalYear?: number; // Ending year, e.g. 2024 for FY2023-24
+    quarter?: number; // Fiscal quarter 1-4 (Q1 = Apr-Jun)
+    month?: string; // YYYY-MM
+    fromDate?: string; // YYYY-MM-DD, custom periods only
+    toDate?: string; // YYYY-MM-DD, custom periods only
+};
+
+export type ResolvedPeriod = {
+    label: string;
+    fromDate: string; // Inclusive, YYYY-MM-DD
+    toDate: string; // Inclusive, YYYY-MM-DD
+};
+
+type DateInput = string | Date;
+
+// =========
+// Date helpers
+// =========
+
+const FISCAL_YEAR_START_MONTH = 3; // April, zero-based
+
+function toIsoDate(date: Date) {
+    return date.toISOString().slice(0, 10);
+}
+
+function utcDate(year: number, month: number, day: number) {
+    return new Date(Date.UTC(year, month, day));
+}
+
+function shiftYears(value: string | Date, years: number) {
+    const date = new Date(value);
+    const month = date.getUTCMonth();
+    date.setUTCFullYear(date.getUTCFullYear() + years);
+    // 29 February has no counterpart in a common year; use 28 February
+    if (date.getUTCMonth() !== month) date.setUTCDate(0);
+    return toIsoDate(date);
+}
+
+function normalizeDate(
+    value: DateInput | null | undefined,
+): string | undefined {
+    if (!value) return undefined;
+
+    const asDate = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(asDate.getTime())) return undefined;
+
+    return toIsoDate(asDate);
+}
+
+/**
+ * Fiscal year (ending year) that a date falls in.
+ */
+export function getFiscalYear(date: Date = new Date()) {
+    return date.getUTCMonth() >= FISCAL_YEAR_START_MONTH
+        ? date.getUTCFullYear() + 1
+        : date.getUTCFullYear();
+}
+
+/**
+ * Fiscal quarter (1-4) that a date falls in.
+ */
+export function getFiscalQuarter(date: Date = new Date()) {
+    const monthsIntoYear = (date.getUTCMonth() - FISCAL_YEAR_START_MONTH + 12) %
+        12;
+    return Math.floor(monthsIntoYear / 3) + 1;
+}
+
+export function formatFiscalYear(fiscalYear: number) {
+    return `FY${fiscalYear - 1}-${String(fiscalYear).slice(-2)}`;
+}
+
+// =========
+// Period resolution
+// =========
+
+function fiscalQuarterRange(fiscalYear: number, quarter: number) {
+    const startMonth = FISCAL_YEAR_START_MONTH + (quarter - 1) * 3;
+    const start = utcDate(fiscalYear - 1, startMonth, 1);
+    const end = utcDate(fiscalYear - 1, startMonth + 3, 0);
+    return { fromDate: toIsoDate(start), toDate: toIsoDate(end) };
+}
+
+/**
+ * Turn a period into inclusive date bounds. Missing fields default to the
+ * period containing today, so `{ type: "fiscal_year" }` is the current FY.
+ */
+export function resolvePeriod(
+    period: PeriodInput,
+    today: Date = new Date(),
+): ResolvedPeriod {
+    switch (period.type) {
+        case "fiscal_year": {
+            const fiscalYear = period.fiscalYear ?? getFiscalYear(today);
+            return {
+                label: formatFiscalYear(fiscalYear),
+                fromDate: toIsoDate(
+                    utcDate(fiscalYear - 1, FISCAL_YEAR_START_MONTH, 1),
+                ),
+                toDate: toIsoDate(
+                    utcDate(fiscalYear, FISCAL_YEAR_START_MONTH, 0),
+                ),
+            };
+        }
+        case "fiscal_quarter": {
+            const fiscalYear = period.fiscalYear ?? getFiscalYear(today);
+            const quarter = Math.min(
+                Math.max(period.quarter ?? getFiscalQuarter(today), 1),
+                4,
+            );
+            return {
+                label: `${formatFiscalYear(fiscalYear)} Q${quarter}`,
+                ...fiscalQuarterRange(fiscalYear, quarter),
+            };
+        }
+        case "month": {
+            const match = period.month?.match(/^(\d{4})-(\d{2})$/);
+            const year = match ? Number(match[1]) : today.getUTCFullYear();
+            const month = match ? Number(match[2]) - 1 : today.getUTCMonth();
+            const start = utcDate(year, month, 1);
+            return {
+                label: toIsoDate(start).slice(0, 7),
+                fromDate: toIsoDate(start),
+                toDate: toIsoDate(utcDate(year, month + 1, 0)),
+            };
+        }
+        case "custom": {
+            const fromDate = normalizeDate(period.fromDate) ?? "1900-01-01";
+            const toDate = normalizeDate(period.toDate) ?? toIsoDate(today);
+            return { label: `${fromDate} to ${toDate}`, fromDate, toDate };
+        }
+    }
+}
+
+/**
+ * The same period one fiscal year earlier, used for year-over-year growth.
+ */
+export function getPriorYearPeriod(period: PeriodInput, today = new Date()) {
+    const resolved = resolvePeriod(period, today);
+
+    switch (period.type) {
+        case "fiscal_year":
+        case "fiscal_quarter": {
+            const fiscalYear = period.fiscalYear ?? getFiscalYear(today);
+            return resolvePeriod(
+                { ...period, fiscalYear: fiscalYear - 1 },
+                today,
+            );
+        }
+        case "month":
+            return resolvePeriod({
+                type: "month",
+                month: shiftYears(resolved.fromDate, -1).slice(0, 7),
+            }, today);
+        case "custom":
+            return resolvePeriod({
+                type: "custom",
+                fromDate: shiftYears(resolved.fromDate, -1),
+                toDate: shiftYears(resolved.toDate, -1),
+            }, today);
+    }
+}
+
+/**
+ * Trailing twelve months ending today, the default window for growth tools.
+ */
+export function getTrailingYear(today: Date = new Date()): ResolvedPeriod {
+    return {
+        label: "Last 12 months",
+        fromDate: shiftYears(today, -1),
+        toDate: toIsoDate(today),
+    };
+}
+
+/**
+ * Resolve the date bounds of a tool call. A `period` wins over explicit
+ * `fromDate`/`toDate`, which keep working for ad-hoc ranges.
+ */
+export function resolveDateRange(params: {
+    fromDate?: DateInput | null;
+    toDate?: DateInput | null;
+    period?: PeriodInput | null;
+}): { fromDate?: string; toDate?: string } {
+    if (params.period) {
+        const { fromDate, toDate } = resolvePeriod(params.period);
+        return { fromDate, toDate };
+    }
+
+    return {
+        fromDate: normalizeDate(params.fromDate),
+        toDate: normalizeDate(params.toDate),
+    };
+}
+
+// =========
+// SQL helpers
+// =========
+
+/**
+ * Inclusive date filter for a resolved period.
+ */
+export function periodFilter(column: PgColumn, period: ResolvedPeriod): SQL {
+    return and(
+        gte(column, period.fromDate),
+        lte(column, period.toDate),
+    )!;
+}
+
+// Shifting a date forward nine months maps April..March onto January..December
+// of the fiscal year's ending year, so calendar extracts give fiscal values.
+export function fiscalYearSql(column: PgColumn) {
+    return sql<
+        number
+    >`extract(year from ${column} + interval '9 months')::int`;
+}
+
+export function fiscalQuarterSql(column: PgColumn) {
+    return sql<
+        number
+    >`extract(quarter from ${column} + interval '9 months')::int`;
+}
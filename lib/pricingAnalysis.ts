@@ -0,0 +1,373 @@
+import {
+    and,
+    desc,
+    eq,
+    gte,
+    ilike,
+    inArray,
+    lte,
+    type SQL,
+    sql,
+} from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { stock } from "@/drizzle/schema/stock-schema";
+import { type PeriodInput, resolveDateRange } from "./periods";
+
+// Pricing analysis: how much of the list price is actually realized per
+// material, and where discounts are deepest. List prices come from `stock`;
+// realized prices from invoice net amounts.
+
+// =========
+// Configuration
+// =========
+
+export const DISCOUNT_DIMENSIONS = {
+    agent: { code: invoice.agentCode, name: invoice.agentName },
+    customer: { code: invoice.billToPartyCode, name: invoice.billToParty },
+    region: { code: invoice.regionZone, name: invoice.regionZone },
+    customer_group: {
+        code: invoice.customerGroupDesc,
+        name: invoice.customerGroupDesc,
+    },
+};
+
+export type DiscountDimension = keyof typeof DISCOUNT_DIMENSIONS;
+
+// Groups charted in the monthly trend; the chat chart draws one line each
+const TREND_GROUPS = 8;
+
+// Groups with less revenue than this share of the total are too small for
+// their discount depth to mean much, so they are never flagged
+const MIN_OUTLIER_REVENUE_SHARE = 0.001;
+
+function round(value: number, digits = 2) {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+function quantile(sorted: number[], q: number) {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Tukey fences: values below Q1 - 1.5 IQR or above Q3 + 1.5 IQR are
+ * outliers. Returns null when there are too few values to judge.
+ */
+export function outlierBounds(values: number[]) {
+    if (values.length < 4) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+
+    return { lower: q1 - 1.5 * iqr, upper: q3 + 1.5 * iqr };
+}
+
+function outlierFlag(
+    value: number | null,
+    bounds: ReturnType<typeof outlierBounds>,
+) {
+    if (value === null || !bounds) return null;
+    if (value < bounds.lower) return "low";
+    if (value > bounds.upper) return "high";
+    return null;
+}
+
+// basicPrice and discountAmount are in the document currency while
+// netAmountInr is in INR, so both analyses only look at INR documents
+const isInr = sql`${invoice.documentCurrency} = 'INR'`;
+
+function baseFilters(params: {
+    fromDate?: string | null;
+    toDate?: string | null;
+    period?: PeriodInput | null;
+}) {
+    const filters: SQL[] = [isInr];
+    const { fromDate, toDate } = resolveDateRange(params);
+
+    if (fromDate) {
+        filters.push(gte(invoice.invoiceDate, fromDate));
+    }
+
+    if (toDate) {
+        filters.push(lte(invoice.invoiceDate, toDate));
+    }
+
+    return filters;
+}
+
+// =========
+// Price realization
+// =========
+
+/**
+ * Realized price per unit (net amount / quantity) against the stock list
+ * price for each material, lowest realization first, from INR documents.
+ * Materials whose realization is unusual compared with the rest are flagged
+ * low or high.
+ */
+export async function getPriceRealization(params: {
+    material?: string;
+    fabricType?: string;
+    minQuantity?: number;
+    limit?: number;
+    fromDate?: string | null;
+    toDate?: string | null;
+    period?: PeriodInput | null;
+}) {
+    const filters = baseFilters(params);
+
+    if (params.material) {
+        filters.push(eq(invoice.material, params.material));
+    }
+
+    if (params.fabricType) {
+        filters.push(ilike(stock.fabricType, `%${params.fabricType}%`));
+    }
+
+    // Returns and credit notes carry negative quantities; leave them out
+    filters.push(sql`${invoice.billedQuantity} > 0`);
+    filters.push(sql`${stock.basicPrice} > 0`);
+
+    const rows = await db.select({
+        material: invoice.material,
+        description: stock.description2ForTheMaterialGroup,
+        fabricType: stock.fabricType,
+        listPrice: stock.basicPrice,
+        quantity: sql<number>`coalesce(sum(${invoice.billedQuantity}), 0)`,
+        netAmount: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
+        discountAmount: sql<
+            number
+        >`coalesce(sum(${invoice.discountAmount}), 0)`,
+        invoicedBasicPrice: sql<
+            number
+        >`sum(${invoice.basicPrice} * ${invoice.billedQuantity}) / nullif(sum(${invoice.billedQuantity}), 0)`,
+        customers: sql<number>`count(distinct ${invoice.billToPartyCode})::int`,
+    })
+        .from(invoice)
+        .innerJoin(stock, eq(stock.material, invoice.material))
+        .where(and(...filters))
+        .groupBy(invoice.material, stock.material)
+        .having(
+            sql`sum(${invoice.billedQuantity}) >= ${params.minQuantity ?? 0}`,
+        );
+
+    const materials = rows.map((row) => {
+        const quantity = Number(row.quantity);
+        const listPrice = Number(row.listPrice);
+        const realizedPrice = quantity > 0
+            ? Number(row.netAmount) / quantity
+            : null;
+
+        return {
+            material: row.material,
+            description: row.description,
+            fabricType: row.fabricType,
+            quantity: round(quantity),
+            listPrice,
+            invoicedBasicPrice: row.invoicedBasicPrice === null
+                ? null
+                : round(Number(row.invoicedBasicPrice)),
+            realizedPrice: realizedPrice === null ? null : round(realizedPrice),
+            realizationPct: realizedPrice === null
+                ? null
+                : round((realizedPrice / listPrice) * 100, 1),
+            // Revenue lost against list price at the quantity sold
+            priceGap: realizedPrice === null
+                ? null
+                : round((listPrice - realizedPrice) * quantity),
+            netAmount: round(Number(row.netAmount)),
+            discountAmount: round(Number(row.discountAmount)),
+            customers: row.customers,
+        };
+    });
+
+    const bounds = outlierBounds(
+        materials
+            .map((m) => m.realizationPct)
+            .filter((pct): pct is number => pct !== null),
+    );
+    const flagged = materials.map((m) => ({
+        ...m,
+        outlier: outlierFlag(m.realizationPct, bounds),
+    }));
+
+    const totalNet = materials.reduce((sum, m) => sum + m.netAmount, 0);
+    const totalList = materials.reduce(
+        (sum, m) => sum + m.listPrice * m.quantity,
+        0,
+    );
+
+    return {
+        materialsAnalyzed: materials.length,
+        overallRealizationPct: totalList > 0
+            ? round((totalNet / totalList) * 100, 1)
+            : null,
+        totalPriceGap: round(
+            materials.reduce((sum, m) => sum + (m.priceGap ?? 0), 0),
+        ),
+        outlierBounds: bounds
+            ? {
+                lowerPct: round(bounds.lower, 1),
+                upperPct: round(bounds.upper, 1),
+            }
+            : null,
+        materials: flagged
+            .sort((a, b) =>
+                (a.realizationPct ?? Infinity) - (b.realizationPct ?? Infinity)
+            )
+            .slice(0, params.limit || 50),
+    };
+}
+
+// =========
+// Discount leakage
+// =========
+
+/**
+ * Discount depth (discount as a share of pre-discount value) per agent,
+ * customer, region or customer group on INR documents, with groups whose
+ * depth is unusual flagged, plus a monthly depth trend for the groups giving
+ * away the most.
+ */
+export async function getDiscountLeakage(params: {
+    groupBy: DiscountDimension;
+    regionZone?: string;
+    agentCode?: string;
+    limit?: number;
+    fromDate?: string | null;
+    toDate?: string | null;
+    period?: PeriodInput | null;
+}) {
+    const dimension = DISCOUNT_DIMENSIONS[params.groupBy];
+    const filters = baseFilters(params);
+
+    if (params.regionZone) {
+        filters.push(ilike(invoice.regionZone, `%${params.regionZone}%`));
+    }
+
+    if (params.agentCode) {
+        filters.push(eq(invoice.agentCode, params.agentCode));
+    }
+
+    const where = and(...filters);
+    const discount = sql<number>`coalesce(sum(${invoice.discountAmount}), 0)`;
+    const netAmount = sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`;
+
+    const rows = await db.select({
+        code: dimension.code,
+        name: sql<string | null>`max(${dimension.name})`,
+        netAmount,
+        discountAmount: discount,
+        invoiceLines: sql<number>`count(*)::int`,
+        discountedLines: sql<
+            number
+        >`count(*) filter (where ${invoice.discountAmount} > 0)::int`,
+    })
+        .from(invoice)
+        .where(where)
+        .groupBy(dimension.code)
+        .orderBy(desc(discount));
+
+    const totalNet = rows.reduce((sum, row) => sum + Number(row.netAmount), 0);
+    const totalDiscount = rows.reduce(
+        (sum, row) => sum + Number(row.discountAmount),
+        0,
+    );
+
+    const groups = rows.map((row) => {
+        const net = Number(row.netAmount);
+        const discountAmount = Number(row.discountAmount);
+        const grossValue = net + discountAmount;
+        return {
+            code: row.code,
+            name: row.name,
+            netAmount: round(net),
+            discountAmount: round(discountAmount),
+            discountDepthPct: grossValue > 0
+                ? round((discountAmount / grossValue) * 100)
+                : null,
+            shareOfAllDiscounts: totalDiscount > 0
+                ? round((discountAmount / totalDiscount) * 100)
+                : null,
+            invoiceLines: row.invoiceLines,
+            discountedLinesPct: row.invoiceLines > 0
+                ? round((row.discountedLines / row.invoiceLines) * 100, 1)
+                : null,
+        };
+    });
+
+    const significant = groups.filter((g) =>
+        totalNet > 0 && g.netAmount / totalNet >= MIN_OUTLIER_REVENUE_SHARE
+    );
+    const bounds = outlierBounds(
+        significant
+            .map((g) => g.discountDepthPct)
+            .filter((pct): pct is number => pct !== null),
+    );
+    const significantCodes = new Set(significant.map((g) => g.code));
+    const flagged = groups.map((g) => ({
+        ...g,
+        outlier: significantCodes.has(g.code)
+            ? outlierFlag(g.discountDepthPct, bounds)
+            : null,
+    }));
+
+    // Monthly trend for the groups with the most discount given away
+    const trendCodes = flagged
+        .slice(0, TREND_GROUPS)
+        .map((g) => g.code)
+        .filter((code): code is string => code !== null);
+
+    const month = sql<
+        string
+    >`to_char(date_trunc('month', ${invoice.invoiceDate}), 'YYYY-MM')`;
+
+    const trendRows = trendCodes.length === 0 ? [] : await db.select({
+        month,
+        code: dimension.code,
+        netAmount,
+        discountAmount: discount,
+    })
+        .from(invoice)
+        .where(and(
+            where,
+            inArray(dimension.code, trendCodes),
+            sql`${invoice.invoiceDate} is not null`,
+        ))
+        .groupBy(month, dimension.code)
+        .orderBy(month);
+
+    const names = new Map(flagged.map((g) => [g.code, g.name ?? g.code]));
+    const overallGross = totalNet + totalDiscount;
+
+    return {
+        groupBy: params.groupBy,
+        overallDiscountDepthPct: overallGross > 0
+            ? round((totalDiscount / overallGross) * 100)
+            : null,
+        totalDiscount: round(totalDiscount),
+        outlierBounds: bounds
+            ? { lowerPct: round(bounds.lower), upperPct: round(bounds.upper) }
+            : null,
+        outliers: flagged.filter((g) => g.outlier !== null).slice(0, 20),
+        groups: flagged.slice(0, params.limit || 50),
+        trend: trendRows.map((row) => {
+            const net = Number(row.netAmount);
+            const discountAmount = Number(row.discountAmount);
+            return {
+                month: row.month,
+                group: names.get(row.code) ?? row.code,
+                discountDepthPct: net + discountAmount > 0
+                    ? round((discountAmount / (net + discountAmount)) * 100)
+                    : null,
+            };
+        }),
+    };
+}
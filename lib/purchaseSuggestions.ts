@@ -0,0 +1,423 @@
+import { and, desc, eq, ilike, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+import * as XLSX from "xlsx";
+
+import { db } from "@/drizzle/db";
+import {
+    type PurchaseSuggestionGrouping,
+    purchaseSuggestionDraft,
+    purchaseSuggestionLine,
+} from "@/drizzle/schema/purchase-suggestion-schema";
+import { stock } from "@/drizzle/schema/stock-schema";
+import { forecastDemand, MAX_HORIZON_MONTHS } from "./forecasting";
+import { getSessionUser } from "./session";
+
+// Purchase suggestions: order enough of each material to cover demand while
+// the order is in transit plus the target number of months after it lands.
+
+// =========
+// Configuration
+// =========
+
+const DEFAULT_COVERAGE_MONTHS = 3;
+const DAYS_PER_MONTH = 365 / 12;
+
+// Materials without a lead time are assumed to take a month to arrive
+const DEFAULT_LEAD_TIME_DAYS = 30;
+
+const MAX_LINES_IN_RESPONSE = 50;
+const INSERT_BATCH_SIZE = 1000;
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+async function getPlanner() {
+    const sessionUser = await getSessionUser(await headers());
+    if (
+        !sessionUser ||
+        (sessionUser.role !== "admin" && sessionUser.role !== "sales")
+    ) {
+        return null;
+    }
+    return sessionUser;
+}
+
+const FORBIDDEN = {
+    success: false,
+    error: "Only admin and sales users can manage purchase suggestions.",
+    data: null,
+} as const;
+
+export function getPurchaseDraftExportUrl(draftId: number) {
+    return `/api/purchase-suggestions/${draftId}/export`;
+}
+
+// =========
+// Generation
+// =========
+
+/**
+ * Propose order quantities per material and save them as a draft. Velocity
+ * is the forecast monthly demand over the lead time plus coverage window;
+ * the target stock covers that window and the suggestion is the shortfall.
+ */
+export async function generatePurchaseSuggestions(params: {
+    targetCoverageMonths?: number;
+    groupBy?: PurchaseSuggestionGrouping;
+    bookName?: string;
+    fabricType?: string;
+}) {
+    const planner = await getPlanner();
+    if (!planner) return FORBIDDEN;
+
+    const coverageMonths = params.targetCoverageMonths &&
+            params.targetCoverageMonths > 0
+        ? params.targetCoverageMonths
+        : DEFAULT_COVERAGE_MONTHS;
+    const groupBy = params.groupBy ?? "bookName";
+
+    const conditions = [];
+    if (params.bookName) {
+        conditions.push(ilike(stock.bookName, `%${params.bookName}%`));
+    }
+    if (params.fabricType) {
+        conditions.push(ilike(stock.fabricType, `%${params.fabricType}%`));
+    }
+
+    const [stockItems, forecasts] = await Promise.all([
+        db.select({
+            material: stock.material,
+            description: stock.description2ForTheMaterialGroup,
+            bookName: stock.bookName,
+            fabricType: stock.fabricType,
+            stockInMeters: stock.stockInMeters,
+            leadTimeDays: stock.leadTimeDays,
+            basicPrice: stock.basicPrice,
+        })
+            .from(stock)
+            .where(conditions.length > 0 ? and(...conditions) : undefined),
+        forecastDemand({ horizonMonths: MAX_HORIZON_MONTHS }),
+    ]);
+
+    const lines = stockItems.flatMap((item) => {
+        const forecast = forecasts.get(item.material);
+        if (!forecast) return [];
+
+        const leadTimeDays = item.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+        const windowMonths = leadTimeDays / DAYS_PER_MONTH + coverageMonths;
+        const points = forecast.points.slice(
+            0,
+            Math.min(Math.ceil(windowMonths), MAX_HORIZON_MONTHS),
+        );
+        const monthlyVelocity = points.reduce((sum, p) => sum + p.forecast, 0) /
+            points.length;
+
+        const currentStock = Number(item.stockInMeters || 0);
+        const targetStock = monthlyVelocity * windowMonths;
+        const suggestedQuantity = Math.ceil(
+            targetStock - Math.max(currentStock, 0),
+        );
+        if (suggestedQuantity <= 0) return [];
+
+        const basicPrice = item.basicPrice !== null
+            ? Number(item.basicPrice)
+            : null;
+
+        return [{
+            groupName: item[groupBy] ?? "Unassigned",
+            material: item.material,
+            description: item.description,
+            bookName: item.bookName,
+            fabricType: item.fabricType,
+            currentStock,
+            monthlyVelocity: round(monthlyVelocity),
+            leadTimeDays,
+            targetStock: round(targetStock),
+            suggestedQuantity,
+            basicPrice,
+            estimatedValue: basicPrice !== null
+                ? round(basicPrice * suggestedQuantity)
+                : null,
+        }];
+    });
+
+    if (lines.length === 0) {
+        return {
+            success: true,
+            message:
+                "Current stock already covers forecast demand for every matching material; no draft was saved.",
+            data: null,
+        };
+    }
+
+    lines.sort((a, b) =>
+        a.groupName.localeCompare(b.groupName) ||
+        (b.estimatedValue ?? 0) - (a.estimatedValue ?? 0)
+    );
+
+    const draft = await db.transaction(async (tx) => {
+        const [row] = await tx
+            .insert(purchaseSuggestionDraft)
+            .values({
+                createdBy: planner.id,
+                targetCoverageMonths: String(coverageMonths),
+                groupBy,
+            })
+            .returning();
+
+        const values = lines.map((line) => ({
+            ...line,
+            draftId: row.id,
+            currentStock: String(line.currentStock),
+            monthlyVelocity: String(line.monthlyVelocity),
+            targetStock: String(line.targetStock),
+            suggestedQuantity: String(line.suggestedQuantity),
+            basicPrice: line.basicPrice !== null
+                ? String(line.basicPrice)
+                : null,
+            estimatedValue: line.estimatedValue !== null
+                ? String(line.estimatedValue)
+                : null,
+        }));
+
+        for (let i = 0; i < values.length; i += INSERT_BATCH_SIZE) {
+            await tx
+                .insert(purchaseSuggestionLine)
+                .values(values.slice(i, i + INSERT_BATCH_SIZE));
+        }
+
+        return row;
+    });
+
+    return {
+        success: true,
+        data: {
+            draftId: draft.id,
+            createdAt: draft.createdAt,
+            targetCoverageMonths: coverageMonths,
+            groupBy,
+            exportUrl: getPurchaseDraftExportUrl(draft.id),
+            groups: summarizeGroups(lines),
+            lineCount: lines.length,
+            lines: lines.slice(0, MAX_LINES_IN_RESPONSE),
+        },
+    };
+}
+
+type GroupSummary = {
+    groupName: string;
+    materials: number;
+    totalQuantity: number;
+    estimatedValue: number;
+};
+
+function summarizeGroups(
+    lines: {
+        groupName: string;
+        suggestedQuantity: number;
+        estimatedValue: number | null;
+    }[],
+) {
+    const groups = new Map<string, GroupSummary>();
+
+    for (const line of lines) {
+        const group = groups.get(line.groupName) ?? {
+            groupName: line.groupName,
+            materials: 0,
+            totalQuantity: 0,
+            estimatedValue: 0,
+        };
+        group.materials += 1;
+        group.totalQuantity += line.suggestedQuantity;
+        group.estimatedValue = round(
+            group.estimatedValue + (line.estimatedValue ?? 0),
+        );
+        groups.set(line.groupName, group);
+    }
+
+    return Array.from(groups.values()).sort((a, b) =>
+        b.estimatedValue - a.estimatedValue
+    );
+}
+
+// =========
+// Drafts
+// =========
+
+/**
+ * Load a saved draft with all of its lines, or null if it does not exist.
+ */
+export async function loadPurchaseDraft(draftId: number) {
+    const [draft] = await db
+        .select()
+        .from(purchaseSuggestionDraft)
+        .where(eq(purchaseSuggestionDraft.id, draftId));
+
+    if (!draft) return null;
+
+    const rows = await db
+        .select()
+        .from(purchaseSuggestionLine)
+        .where(eq(purchaseSuggestionLine.draftId, draftId))
+        .orderBy(purchaseSuggestionLine.groupName, purchaseSuggestionLine.id);
+
+    const lines = rows.map((row) => ({
+        groupName: row.groupName,
+        material: row.material,
+        description: row.description,
+        bookName: row.bookName,
+        fabricType: row.fabricType,
+        currentStock: Number(row.currentStock),
+        monthlyVelocity: Number(row.monthlyVelocity),
+        leadTimeDays: row.leadTimeDays,
+        targetStock: Number(row.targetStock),
+        suggestedQuantity: Number(row.suggestedQuantity),
+        basicPrice: row.basicPrice !== null ? Number(row.basicPrice) : null,
+        estimatedValue: row.estimatedValue !== null
+            ? Number(row.estimatedValue)
+            : null,
+    }));
+
+    return {
+        draftId: draft.id,
+        createdAt: draft.createdAt,
+        targetCoverageMonths: Number(draft.targetCoverageMonths),
+        groupBy: draft.groupBy,
+        exportUrl: getPurchaseDraftExportUrl(draft.id),
+        groups: summarizeGroups(lines),
+        lines,
+    };
+}
+
+export type PurchaseDraft = NonNullable<
+    Awaited<ReturnType<typeof loadPurchaseDraft>>
+>;
+
+export async function getPurchaseSuggestionDraft(params: { draftId: number }) {
+    if (!(await getPlanner())) return FORBIDDEN;
+
+    const draft = await loadPurchaseDraft(params.draftId);
+    if (!draft) {
+        return {
+            success: false,
+            error: `No purchase suggestion draft found with id ${params.draftId}.`,
+            data: null,
+        };
+    }
+
+    return {
+        success: true,
+        data: {
+            ...draft,
+            lineCount: draft.lines.length,
+            lines: draft.lines.slice(0, MAX_LINES_IN_RESPONSE),
+        },
+    };
+}
+
+export async function listPurchaseSuggestionDrafts(params: {
+    limit?: number;
+}) {
+    if (!(await getPlanner())) return FORBIDDEN;
+
+    const drafts = await db
+        .select({
+            draftId: purchaseSuggestionDraft.id,
+            createdAt: purchaseSuggestionDraft.createdAt,
+            targetCoverageMonths: purchaseSuggestionDraft.targetCoverageMonths,
+            groupBy: purchaseSuggestionDraft.groupBy,
+            lineCount: sql<number>`count(${purchaseSuggestionLine.id})::int`,
+            totalQuantity: sql<
+                number
+            >`coalesce(sum(${purchaseSuggestionLine.suggestedQuantity}), 0)`,
+            estimatedValue: sql<
+                number
+            >`coalesce(sum(${purchaseSuggestionLine.estimatedValue}), 0)`,
+        })
+        .from(purchaseSuggestionDraft)
+        .leftJoin(
+            purchaseSuggestionLine,
+            eq(purchaseSuggestionLine.draftId, purchaseSuggestionDraft.id),
+        )
+        .groupBy(purchaseSuggestionDraft.id)
+        .orderBy(desc(purchaseSuggestionDraft.createdAt))
+        .limit(params.limit || 10);
+
+    return {
+        success: true,
+        data: drafts.map((draft) => ({
+            ...draft,
+            exportUrl: getPurchaseDraftExportUrl(draft.draftId),
+        })),
+    };
+}
+
+// =========
+// Export
+// =========
+
+/**
+ * Build the XLSX for a draft: a summary sheet with one row per group and a
+ * sheet with every line, grouped in order.
+ */
+export function buildPurchaseDraftWorkbook(draft: PurchaseDraft): Buffer {
+    const workbook = XLSX.utils.book_new();
+
+    const groupLabel = draft.groupBy === "bookName" ? "Book" : "Fabric type";
+
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+            ["Purchase suggestion draft", draft.draftId],
+            ["Created", draft.createdAt.toISOString().slice(0, 10)],
+            ["Target coverage (months)", draft.targetCoverageMonths],
+            [],
+            [groupLabel, "Materials", "Total quantity", "Estimated value"],
+            ...draft.groups.map((group) => [
+                group.groupName,
+                group.materials,
+                group.totalQuantity,
+                group.estimatedValue,
+            ]),
+        ]),
+        "Summary",
+    );
+
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+            [
+                groupLabel,
+                "Material",
+                "Description",
+                "Book",
+                "Fabric type",
+                "Current stock",
+                "Monthly velocity",
+                "Lead time (days)",
+                "Target stock",
+                "Suggested quantity",
+                "Basic price",
+                "Estimated value",
+            ],
+            ...draft.lines.map((line) => [
+                line.groupName,
+                line.material,
+                line.description,
+                line.bookName,
+                line.fabricType,
+                line.currentStock,
+                line.monthlyVelocity,
+                line.leadTimeDays,
+                line.targetStock,
+                line.suggestedQuantity,
+                line.basicPrice,
+                line.estimatedValue,
+            ]),
+        ]),
+        "Lines",
+    );
+
+    return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
@@ -0,0 +1,223 @@
+import { and, desc, eq, gt, gte, inArray, ne, or, sql } from "drizzle-orm";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { stock } from "@/drizzle/schema/stock-schema";
+
+// "What should I pitch to customer X": in-stock materials the customer has
+// never bought, ranked by how many similar customers buy them. Similar means
+// the same city, the same customer group or buying for the same end use.
+
+// =========
+// Configuration
+// =========
+
+// Peer purchases older than this no longer say much about current taste
+const PEER_WINDOW_MONTHS = 24;
+
+// The customer's most-bought fabric types, used as a history affinity signal
+const TOP_FABRIC_TYPES = 3;
+
+// Score weights; peer counts are scaled against the best candidate first
+const WEIGHTS = { city: 30, customerGroup: 30, endUse: 25, fabricType: 15 };
+
+const numberFormatter = new Intl.NumberFormat("en-IN", {
+    maximumFractionDigits: 0,
+});
+
+function pluralCustomers(count: number) {
+    return `${count} customer${count === 1 ? "" : "s"}`;
+}
+
+// =========
+// Recommendation tool
+// =========
+
+/**
+ * Recommend in-stock materials for a customer, each with a 0-100 score and
+ * the reasons behind it.
+ */
+export async function getCustomerRecommendations(params: {
+    billToPartyCode: string;
+    minStock?: number;
+    fabricType?: string;
+    limit?: number;
+}) {
+    const code = params.billToPartyCode;
+
+    const [profile] = await db.select({
+        customerName: sql<string | null>`max(${invoice.billToParty})`,
+        city: sql<
+            string | null
+        >`(array_agg(${invoice.billToPartyCity} order by ${invoice.invoiceDate} desc))[1]`,
+        customerGroup: sql<
+            string | null
+        >`(array_agg(${invoice.customerGroupDesc} order by ${invoice.invoiceDate} desc))[1]`,
+        endUses: sql<
+            string[] | null
+        >`array_agg(distinct ${invoice.endUse}) filter (where ${invoice.endUse} is not null)`,
+        invoiceLines: sql<number>`count(*)::int`,
+    })
+        .from(invoice)
+        .where(eq(invoice.billToPartyCode, code));
+
+    if (!profile || profile.invoiceLines === 0) {
+        return {
+            success: false,
+            error: `No invoices found for customer code: ${code}`,
+            data: null,
+        };
+    }
+
+    const [bought, fabricTypes] = await Promise.all([
+        db.selectDistinct({ material: invoice.material })
+            .from(invoice)
+            .where(eq(invoice.billToPartyCode, code)),
+        db.select({ fabricType: invoice.fabricType })
+            .from(invoice)
+            .where(and(
+                eq(invoice.billToPartyCode, code),
+                sql`${invoice.fabricType} is not null`,
+            ))
+            .groupBy(invoice.fabricType)
+            .orderBy(desc(sql`coalesce(sum(${invoice.netAmountInr}), 0)`))
+            .limit(TOP_FABRIC_TYPES),
+    ]);
+
+    const boughtMaterials = new Set(bought.map((row) => row.material));
+    const topFabricTypes = fabricTypes.map((row) => row.fabricType!);
+    const endUses = profile.endUses ?? [];
+
+    const isSameCity = profile.city
+        ? eq(invoice.billToPartyCity, profile.city)
+        : sql`false`;
+    const isSameGroup = profile.customerGroup
+        ? eq(invoice.customerGroupDesc, profile.customerGroup)
+        : sql`false`;
+    const isSameEndUse = endUses.length > 0
+        ? inArray(invoice.endUse, endUses)
+        : sql`false`;
+
+    const since = new Date();
+    since.setUTCMonth(since.getUTCMonth() - PEER_WINDOW_MONTHS);
+
+    const candidates = await db.select({
+        material: stock.material,
+        description: stock.description2ForTheMaterialGroup,
+        fabricType: stock.fabricType,
+        endUse: stock.endUse,
+        design: stock.design,
+        colourFamily: stock.colourFamily,
+        bookName: stock.bookName,
+        stockInMeters: stock.stockInMeters,
+        basicPrice: stock.basicPrice,
+        cityPeers: sql<
+            number
+        >`count(distinct ${invoice.billToPartyCode}) filter (where ${isSameCity})::int`,
+        groupPeers: sql<
+            number
+        >`count(distinct ${invoice.billToPartyCode}) filter (where ${isSameGroup})::int`,
+        endUsePeers: sql<
+            number
+        >`count(distinct ${invoice.billToPartyCode}) filter (where ${isSameEndUse})::int`,
+    })
+        .from(invoice)
+        .innerJoin(stock, eq(stock.material, invoice.material))
+        .where(and(
+            ne(invoice.billToPartyCode, code),
+            gte(invoice.invoiceDate, since.toISOString().slice(0, 10)),
+            gt(stock.stockInMeters, String(params.minStock ?? 0)),
+            params.fabricType
+                ? eq(stock.fabricType, params.fabricType)
+                : undefined,
+            or(isSameCity, isSameGroup, isSameEndUse),
+        ))
+        .groupBy(stock.material);
+
+    const unseen = candidates.filter((c) => !boughtMaterials.has(c.material));
+    const maxOf = (values: number[]) => Math.max(...values, 1);
+    const maxCity = maxOf(unseen.map((c) => c.cityPeers));
+    const maxGroup = maxOf(unseen.map((c) => c.groupPeers));
+    const maxEndUse = maxOf(unseen.map((c) => c.endUsePeers));
+
+    const recommendations = unseen.map((candidate) => {
+        const matchesFabricType = candidate.fabricType !== null &&
+            topFabricTypes.includes(candidate.fabricType);
+
+        const score = Math.round(
+            WEIGHTS.city * (candidate.cityPeers / maxCity) +
+                WEIGHTS.customerGroup * (candidate.groupPeers / maxGroup) +
+                WEIGHTS.endUse * (candidate.endUsePeers / maxEndUse) +
+                (matchesFabricType ? WEIGHTS.fabricType : 0),
+        );
+
+        const reasons: string[] = [];
+        if (candidate.cityPeers > 0) {
+            reasons.push(
+                `Bought by ${pluralCustomers(candidate.cityPeers)} in ${profile.city}`,
+            );
+        }
+        if (candidate.groupPeers > 0) {
+            reasons.push(
+                `Bought by ${
+                    pluralCustomers(candidate.groupPeers)
+                } in group ${profile.customerGroup}`,
+            );
+        }
+        if (candidate.endUsePeers > 0) {
+            reasons.push(
+                `Bought by ${
+                    pluralCustomers(candidate.endUsePeers)
+                } for the same end use`,
+            );
+        }
+        if (matchesFabricType) {
+            reasons.push(
+                `Matches their usual fabric type ${candidate.fabricType}`,
+            );
+        }
+        reasons.push(
+            `${
+                numberFormatter.format(Number(candidate.stockInMeters))
+            } m in stock`,
+        );
+
+        return {
+            material: candidate.material,
+            score,
+            reason: reasons.join("; "),
+            description: candidate.description,
+            fabricType: candidate.fabricType,
+            endUse: candidate.endUse,
+            design: candidate.design,
+            colourFamily: candidate.colourFamily,
+            bookName: candidate.bookName,
+            stockInMeters: candidate.stockInMeters,
+            basicPrice: candidate.basicPrice,
+            cityPeers: candidate.cityPeers,
+            groupPeers: candidate.groupPeers,
+            endUsePeers: candidate.endUsePeers,
+        };
+    });
+
+    return {
+        success: true,
+        data: {
+            customer: {
+                billToPartyCode: code,
+                customerName: profile.customerName,
+                city: profile.city,
+                customerGroup: profile.customerGroup,
+                endUses: endUses.join(", "),
+                topFabricTypes: topFabricTypes.join(", "),
+                materialsBought: boughtMaterials.size,
+            },
+            recommendations: recommendations
+                .sort((a, b) =>
+                    b.score - a.score ||
+                    Number(b.stockInMeters) - Number(a.stockInMeters)
+                )
+                .slice(0, params.limit || 20),
+        },
+    };
+}
@@ -0,0 +1,399 @@
+import { inArray, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+
+import { db } from "@/drizzle/db";
+import { reorderPolicy } from "@/drizzle/schema/reorder-policy-schema";
+import { stock } from "@/drizzle/schema/stock-schema";
+import { getMonthlyDemand } from "./forecasting";
+import { getClassificationMap } from "./materialClassification";
+import { getSessionUser } from "./session";
+
+// Reorder points with safety stock: reorder when stock falls to the demand
+// expected during the lead time plus a buffer sized to the demand variability
+// and the chance of not stocking out we want (the service level).
+
+// =========
+// Configuration
+// =========
+
+// One-sided normal quantiles for the supported service levels (percent)
+export const SERVICE_LEVELS = {
+    80: 0.8416,
+    85: 1.0364,
+    90: 1.2816,
+    95: 1.6449,
+    98: 2.0537,
+    99: 2.3263,
+} as const;
+
+export type ServiceLevel = keyof typeof SERVICE_LEVELS;
+
+export const DEFAULT_SERVICE_LEVEL: ServiceLevel = 95;
+
+const DEMAND_WINDOW_MONTHS = 12;
+const DAYS_PER_MONTH = 365 / 12;
+
+// Materials without a lead time are assumed to take a month to arrive
+const DEFAULT_LEAD_TIME_DAYS = 30;
+
+// Orders top stock up to the reorder point plus this many days of demand
+const ORDER_COVER_DAYS = 30;
+
+// Stored policies older than this are recalculated on the fly, since the
+// demand history behind them has moved on
+const POLICY_REFRESH_DAYS = 30;
+
+const UPSERT_BATCH_SIZE = 1000;
+
+type StockItem = {
+    material: string;
+    leadTimeDays: number | null;
+};
+
+type ReorderPolicy = {
+    material: string;
+    serviceLevel: ServiceLevel;
+    leadTimeDays: number;
+    averageDailyDemand: number;
+    dailyDemandStdDev: number;
+    safetyStock: number;
+    reorderPoint: number;
+    calculatedAt: Date | null; // null when calculated on the fly
+};
+
+function isServiceLevel(value: number): value is ServiceLevel {
+    return value in SERVICE_LEVELS;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+// =========
+// Calculation
+// =========
+
+/**
+ * Safety stock and reorder point from monthly demand. Monthly mean and
+ * standard deviation are scaled to daily figures, so the buffer grows with
+ * the square root of the lead time.
+ */
+export function calculateReorderPoint(params: {
+    monthlyDemand: number[];
+    leadTimeDays: number;
+    serviceLevel: ServiceLevel;
+}) {
+    const { monthlyDemand, leadTimeDays } = params;
+    const n = monthlyDemand.length;
+
+    const monthlyMean = n > 0
+        ? monthlyDemand.reduce((sum, v) => sum + v, 0) / n
+        : 0;
+    const monthlyStdDev = n > 1
+        ? Math.sqrt(
+            monthlyDemand.reduce((sum, v) => sum + (v - monthlyMean) ** 2, 0) /
+                (n - 1),
+        )
+        : 0;
+
+    const averageDailyDemand = monthlyMean / DAYS_PER_MONTH;
+    const dailyDemandStdDev = monthlyStdDev / Math.sqrt(DAYS_PER_MONTH);
+    const safetyStock = SERVICE_LEVELS[params.serviceLevel] *
+        dailyDemandStdDev * Math.sqrt(leadTimeDays);
+
+    return {
+        averageDailyDemand: round(averageDailyDemand),
+        dailyDemandStdDev: round(dailyDemandStdDev),
+        safetyStock: round(safetyStock),
+        reorderPoint: round(averageDailyDemand * leadTimeDays + safetyStock),
+    };
+}
+
+/**
+ * Quantity that brings stock back up to the reorder point plus a month of
+ * average demand, rounded up to whole meters.
+ */
+export function recommendedOrderQuantity(
+    policy: Pick<ReorderPolicy, "reorderPoint" | "averageDailyDemand">,
+    currentStock: number,
+) {
+    const orderUpTo = policy.reorderPoint +
+        policy.averageDailyDemand * ORDER_COVER_DAYS;
+    return Math.max(Math.ceil(orderUpTo - Math.max(currentStock, 0)), 0);
+}
+
+// `materials` narrows the demand query; leave it undefined when building
+// policies for the whole stock list
+async function buildPolicies(
+    stockItems: StockItem[],
+    serviceLevelFor: (material: string) => ServiceLevel,
+    materials?: string[],
+): Promise<ReorderPolicy[]> {
+    const demand = await getMonthlyDemand(materials);
+
+    return stockItems.map((item) => {
+        const serviceLevel = serviceLevelFor(item.material);
+        const leadTimeDays = item.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+
+        return {
+            material: item.material,
+            serviceLevel,
+            leadTimeDays,
+            ...calculateReorderPoint({
+                monthlyDemand: (demand.get(item.material) ?? []).slice(
+                    -DEMAND_WINDOW_MONTHS,
+                ),
+                leadTimeDays,
+                serviceLevel,
+            }),
+            calculatedAt: null,
+        };
+    });
+}
+
+// =========
+// Persistence
+// =========
+
+/**
+ * Reorder policies for the given materials (or all stock). Stored policies
+ * are used while they are current; materials that have never been
+ * calculated, whose lead time has changed since, or whose policy is older
+ * than the refresh window get one on the fly. Recalculated materials keep
+ * their stored service level.
+ */
+export async function getReorderPolicies(
+    materials?: string[],
+): Promise<Map<string, ReorderPolicy>> {
+    const [stored, stockItems] = await Promise.all([
+        db.select()
+            .from(reorderPolicy)
+            .where(
+                materials
+                    ? inArray(reorderPolicy.material, materials)
+                    : undefined,
+            ),
+        db.select({
+            material: stock.material,
+            leadTimeDays: stock.leadTimeDays,
+        })
+            .from(stock)
+            .where(materials ? inArray(stock.material, materials) : undefined),
+    ]);
+
+    const policies = new Map<string, ReorderPolicy>();
+    for (const row of stored) {
+        const serviceLevel = Number(row.serviceLevel);
+        policies.set(row.material, {
+            material: row.material,
+            serviceLevel: isServiceLevel(serviceLevel)
+                ? serviceLevel
+                : DEFAULT_SERVICE_LEVEL,
+            leadTimeDays: row.leadTimeDays,
+            averageDailyDemand: Number(row.averageDailyDemand),
+            dailyDemandStdDev: Number(row.dailyDemandStdDev),
+            safetyStock: Number(row.safetyStock),
+            reorderPoint: Number(row.reorderPoint),
+            calculatedAt: row.calculatedAt,
+        });
+    }
+
+    const refreshBefore = Date.now() -
+        POLICY_REFRESH_DAYS * 24 * 60 * 60 * 1000;
+    const outdated = stockItems.filter((item) => {
+        const policy = policies.get(item.material);
+        return !policy?.calculatedAt ||
+            policy.calculatedAt.getTime() < refreshBefore ||
+            policy.leadTimeDays !==
+                (item.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS);
+    });
+
+    if (outdated.length > 0) {
+        const calculated = await buildPolicies(
+            outdated,
+            (material) =>
+                policies.get(material)?.serviceLevel ?? DEFAULT_SERVICE_LEVEL,
+            materials,
+        );
+        for (const policy of calculated) {
+            policies.set(policy.material, policy);
+        }
+    }
+
+    return policies;
+}
+
+/**
+ * Recalculate and store reorder policies from the last twelve months of
+ * demand and each material's current lead time. With a `serviceLevel` the
+ * selected materials move to that level; otherwise each keeps its stored
+ * level. Admin only.
+ */
+export async function recalculateReorderPoints(params: {
+    materials?: string[];
+    serviceLevel?: ServiceLevel;
+}) {
+    const sessionUser = await getSessionUser(await headers());
+
+    if (!sessionUser || sessionUser.role !== "admin") {
+        return {
+            success: false,
+            error: "Only admins can recalculate reorder points.",
+            data: null,
+        };
+    }
+
+    const materials = params.materials && params.materials.length > 0
+        ? params.materials
+        : undefined;
+
+    const [stockItems, stored] = await Promise.all([
+        db.select({
+            material: stock.material,
+            leadTimeDays: stock.leadTimeDays,
+        })
+            .from(stock)
+            .where(materials ? inArray(stock.material, materials) : undefined),
+        db.select({
+            material: reorderPolicy.material,
+            serviceLevel: reorderPolicy.serviceLevel,
+        })
+            .from(reorderPolicy)
+            .where(
+                materials
+                    ? inArray(reorderPolicy.material, materials)
+                    : undefined,
+            ),
+    ]);
+
+    if (stockItems.length === 0) {
+        return {
+            success: false,
+            error: "No matching materials found in stock.",
+            data: null,
+        };
+    }
+
+    const storedLevels = new Map(
+        stored.map((row) => [row.material, Number(row.serviceLevel)]),
+    );
+    const policies = await buildPolicies(stockItems, (material) => {
+        if (params.serviceLevel) return params.serviceLevel;
+        const level = storedLevels.get(material);
+        return level !== undefined && isServiceLevel(level)
+            ? level
+            : DEFAULT_SERVICE_LEVEL;
+    }, materials);
+
+    const calculatedAt = new Date();
+
+    await db.transaction(async (tx) => {
+        for (let i = 0; i < policies.length; i += UPSERT_BATCH_SIZE) {
+            const batch = policies.slice(i, i + UPSERT_BATCH_SIZE);
+            await tx
+                .insert(reorderPolicy)
+                .values(batch.map((policy) => ({
+                    material: policy.material,
+                    serviceLevel: String(policy.serviceLevel),
+                    leadTimeDays: policy.leadTimeDays,
+                    averageDailyDemand: String(policy.averageDailyDemand),
+                    dailyDemandStdDev: String(policy.dailyDemandStdDev),
+                    safetyStock: String(policy.safetyStock),
+                    reorderPoint: String(policy.reorderPoint),
+                    calculatedAt,
+                })))
+                .onConflictDoUpdate({
+                    target: reorderPolicy.material,
+                    set: {
+                        serviceLevel: sql`excluded.service_level`,
+                        leadTimeDays: sql`excluded.lead_time_days`,
+                        averageDailyDemand: sql`excluded.average_daily_demand`,
+                        dailyDemandStdDev: sql`excluded.daily_demand_std_dev`,
+                        safetyStock: sql`excluded.safety_stock`,
+                        reorderPoint: sql`excluded.reorder_point`,
+                        calculatedAt,
+                    },
+                });
+        }
+    });
+
+    return {
+        success: true,
+        data: {
+            materialsUpdated: policies.length,
+            serviceLevel: params.serviceLevel ?? "unchanged per material",
+            calculatedAt: calculatedAt.toISOString(),
+        },
+    };
+}
+
+// =========
+// Reorder report
+// =========
+
+/**
+ * Materials whose stock is at or below their reorder point, with the
+ * quantity to order. Materials with no demand have a zero reorder point and
+ * never appear.
+ */
+export async function getItemsBelowReorderPoint(params: {
+    fabricType?: string;
+    limit?: number;
+}) {
+    const [stockItems, policies, classes] = await Promise.all([
+        db.select({
+            material: stock.material,
+            description: stock.description2ForTheMaterialGroup,
+            fabricType: stock.fabricType,
+            stockInMeters: stock.stockInMeters,
+            replenishmentDate: stock.replenishmentDate,
+        }).from(stock),
+        getReorderPolicies(),
+        getClassificationMap(),
+    ]);
+
+    const fabricType = params.fabricType?.toLowerCase();
+
+    const items = stockItems
+        .filter((item) =>
+            !fabricType || item.fabricType?.toLowerCase().includes(fabricType)
+        )
+        .flatMap((item) => {
+            const policy = policies.get(item.material);
+            const currentStock = Number(item.stockInMeters || 0);
+            if (
+                !policy || policy.reorderPoint <= 0 ||
+                currentStock > policy.reorderPoint
+            ) {
+                return [];
+            }
+
+            return [{
+                material: item.material,
+                description: item.description,
+                fabricType: item.fabricType,
+                abcXyzClass: classes.get(item.material) ?? null,
+                currentStock,
+                reorderPoint: policy.reorderPoint,
+                safetyStock: policy.safetyStock,
+                leadTimeDays: policy.leadTimeDays,
+                serviceLevel: policy.serviceLevel,
+                recommendedOrderQuantity: recommendedOrderQuantity(
+                    policy,
+                    currentStock,
+                ),
+                replenishmentDate: item.replenishmentDate,
+                policyCalculatedAt: policy.calculatedAt?.toISOString() ??
+                    null,
+            }];
+        })
+        // Furthest below their reorder point first
+        .sort((a, b) =>
+            a.currentStock / a.reorderPoint - b.currentStock / b.reorderPoint
+        );
+
+    return {
+        itemsBelowReorderPoint: items.length,
+        items: items.slice(0, params.limit || 50),
+    };
+}
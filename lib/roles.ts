@@ -0,0 +1,30 @@
+// Roles stored on the better-auth `user.role` column.
+// - admin: full access to every tool, including customer-wide analytics
+// - sales: internal staff, invoice / sales / stock analytics
+// - agent: sales agent, "my customers" tools scoped to their user.agentCode
+// - broker: broker, only invoices routed through their user.brokerCode
+// - customer: only the "my" tools scoped to their own invoices
+export const USER_ROLES = [
+    "admin",
+    "sales",
+    "agent",
+    "broker",
+    "customer",
+] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const DEFAULT_USER_ROLE: UserRole = "customer";
+
+export function isUserRole(value: unknown): value is UserRole {
+    return typeof value === "string" &&
+        (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalize a raw role value from the session. Anything unknown falls back
+ * to the least privileged role so a bad value never widens access.
+ */
+export function toUserRole(value: unknown): UserRole {
+    return isUserRole(value) ? value : DEFAULT_USER_ROLE;
+}
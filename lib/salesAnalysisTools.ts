@@ -1,19 +1,76 @@
-import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import {
+    and,
+    desc,
+    eq,
+    gte,
+    inArray,
+    isNotNull,
+    lte,
+    sql,
+} from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
 import { db } from "@/drizzle/db";
 import { invoice } from "@/drizzle/schema/invoice-schema";
 import { stock } from "@/drizzle/schema/stock-schema";
+import {
+    forecastDemand,
+    MAX_HORIZON_MONTHS,
+    projectStockOutDate,
+} from "./forecasting";
+import {
+    fiscalQuarterSql,
+    fiscalYearSql,
+    formatFiscalYear,
+    getFiscalYear,
+    getPriorYearPeriod,
+    getTrailingYear,
+    type PeriodInput,
+    periodFilter,
+    resolveDateRange,
+    type ResolvedPeriod,
+    resolvePeriod,
+} from "./periods";
+import { getClassificationMap } from "./materialClassification";
+import { getReorderPolicies, recommendedOrderQuantity } from "./reorderPoints";
+
+// Current and prior-year windows for the growth tools. Without a period we
+// compare the trailing twelve months with the twelve months before them.
+function getGrowthWindows(period?: PeriodInput | null) {
+    if (period) {
+        return {
+            current: resolvePeriod(period),
+            previous: getPriorYearPeriod(period),
+        };
+    }
+
+    const current = getTrailingYear();
+    return {
+        current,
+        previous: {
+            ...getTrailingYear(new Date(current.fromDate)),
+            label: "Previous 12 months",
+        },
+    };
+}
 
-// 1. Quarterly Revenue for Regions (US, UK, EU)
+// 1. Quarterly Revenue by fiscal quarter (April-March fiscal years)
 export async function getQuarterlyRevenue(params: {
     regions?: string[]; // e.g. ["US", "UK", "EU"]
-    years?: number; // e.g. 2
+    years?: number; // Fiscal years to look back, e.g. 2
+    period?: PeriodInput | null; // Overrides `years` when given
 }) {
+    // Whole fiscal years, including the current one, so the oldest year's
+    // early quarters are not cut short
     const years = params.years || 2;
-    const cutoffDate = new Date();
-    cutoffDate.setFullYear(cutoffDate.getFullYear() - years);
+    const firstYear = resolvePeriod({
+        type: "fiscal_year",
+        fiscalYear: getFiscalYear() - years + 1,
+    });
 
     const conditions = [
-        gte(invoice.invoiceDate, cutoffDate.toISOString().slice(0, 10)),
+        params.period
+            ? periodFilter(invoice.invoiceDate, resolvePeriod(params.period))
+            : gte(invoice.invoiceDate, firstYear.fromDate),
     ];
     if (params.regions && params.regions.length > 0) {
         // Assuming regionZone matches or we need a mapping.
@@ -22,137 +79,270 @@ export async function getQuarterlyRevenue(params: {
         conditions.push(inArray(invoice.regionZone, params.regions));
     }
 
+    const fiscalYear = fiscalYearSql(invoice.invoiceDate);
+    const fiscalQuarter = fiscalQuarterSql(invoice.invoiceDate);
+
     const rows = await db
         .select({
-            year: sql<number>`EXTRACT(YEAR FROM ${invoice.invoiceDate})`,
-            quarter: sql<number>`EXTRACT(QUARTER FROM ${invoice.invoiceDate})`,
+            fiscalYear,
+            fiscalQuarter,
             region: invoice.regionZone,
             revenue: sql<number>`sum(${invoice.netAmountInr})`,
         })
         .from(invoice)
         .where(and(...conditions))
-        .groupBy(
-            sql`EXTRACT(YEAR FROM ${invoice.invoiceDate})`,
-            sql`EXTRACT(QUARTER FROM ${invoice.invoiceDate})`,
-            invoice.regionZone,
-        )
-        .orderBy(
-            sql`EXTRACT(YEAR FROM ${invoice.invoiceDate}) DESC`,
-            sql`EXTRACT(QUARTER FROM ${invoice.invoiceDate}) DESC`,
-        );
+        .groupBy(fiscalYear, fiscalQuarter, invoice.regionZone)
+        .orderBy(desc(fiscalYear), desc(fiscalQuarter));
 
-    return rows;
+    return rows.map((row) => ({
+        period: `${formatFiscalYear(row.fiscalYear)} Q${row.fiscalQuarter}`,
+        ...row,
+    }));
 }
 
-// 2. Region Growth (Year over Year)
-export async function getRegionGrowth() {
-    // Compare last 12 months vs previous 12 months
-    const today = new Date();
-    const oneYearAgo = new Date(today);
-    oneYearAgo.setFullYear(today.getFullYear() - 1);
-    const twoYearsAgo = new Date(today);
-    twoYearsAgo.setFullYear(today.getFullYear() - 2);
+// 1b. Period-over-Period Comparison (any metric by any dimension)
+export const COMPARISON_METRICS = {
+    net_revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
+    quantity: sql<number>`coalesce(sum(${invoice.billedQuantity}), 0)`,
+    invoice_count: sql<number>`count(distinct ${invoice.billingDocument})`,
+    discount: sql<number>`coalesce(sum(${invoice.discountAmount}), 0)`,
+};
+
+// `requireKey` drops rows without a value, e.g. direct sales have no broker
+export const COMPARISON_DIMENSIONS = {
+    region: { key: invoice.regionZone, label: invoice.regionZone },
+    customer: { key: invoice.billToPartyCode, label: invoice.billToParty },
+    agent: { key: invoice.agentCode, label: invoice.agentName },
+    broker: {
+        key: invoice.brokerCode,
+        label: invoice.brokerName,
+        requireKey: true,
+    },
+    design: {
+        key: invoice.ainocularDesign,
+        label: invoice.ainocularDesignDescription,
+    },
+    end_use: { key: invoice.endUse, label: invoice.endUse },
+    city: { key: invoice.billToPartyCity, label: invoice.billToPartyCity },
+};
 
-    const currentPeriod = await db
-        .select({
-            region: invoice.regionZone,
-            revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
-        })
-        .from(invoice)
-        .where(and(
-            gte(invoice.invoiceDate, oneYearAgo.toISOString().slice(0, 10)),
-            lte(invoice.invoiceDate, today.toISOString().slice(0, 10)),
-        ))
-        .groupBy(invoice.regionZone);
+export type ComparisonMetric = keyof typeof COMPARISON_METRICS;
+export type ComparisonDimension = keyof typeof COMPARISON_DIMENSIONS;
 
-    const previousPeriod = await db
-        .select({
-            region: invoice.regionZone,
-            revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
+type ComparisonOptions = {
+    metric: ComparisonMetric;
+    dimension: ComparisonDimension;
+    sortBy?: "absolute_change" | "percentage_change" | "current_value";
+    sortOrder?: "asc" | "desc";
+    limit?: number;
+    regionZone?: string;
+    agentCode?: string;
+};
+
+async function runComparison(
+    current: ResolvedPeriod,
+    previous: ResolvedPeriod,
+    options: ComparisonOptions,
+) {
+    const metric = COMPARISON_METRICS[options.metric];
+    const dimension: { key: PgColumn; label: PgColumn; requireKey?: boolean } =
+        COMPARISON_DIMENSIONS[options.dimension];
+    const limit = options.limit && options.limit > 0
+        ? Math.min(options.limit, 200)
+        : 20;
+
+    // Missing keys are grouped together so FULL JOIN can match them by value
+    const key = sql<string>`coalesce(${dimension.key}, 'Unassigned')`;
+    const filters = and(
+        dimension.requireKey ? isNotNull(dimension.key) : undefined,
+        options.regionZone
+            ? eq(invoice.regionZone, options.regionZone)
+            : undefined,
+        options.agentCode ? eq(invoice.agentCode, options.agentCode) : undefined,
+    );
+
+    const aggregate = (period: ResolvedPeriod) =>
+        db.select({
+            key: key.as("key"),
+            label: sql<string>`max(${dimension.label})`.as("label"),
+            value: sql<number>`${metric}`.as("value"),
         })
-        .from(invoice)
-        .where(and(
-            gte(invoice.invoiceDate, twoYearsAgo.toISOString().slice(0, 10)),
-            lte(invoice.invoiceDate, oneYearAgo.toISOString().slice(0, 10)),
-        ))
-        .groupBy(invoice.regionZone);
-
-    // Calculate growth
-    const growthData = currentPeriod.map((curr) => {
-        const prev = previousPeriod.find((p) => p.region === curr.region);
-        const prevRev = prev ? Number(prev.revenue) : 0;
-        const currRev = Number(curr.revenue);
-        const growth = prevRev === 0
-            ? (currRev > 0 ? 100 : 0)
-            : ((currRev - prevRev) / prevRev) * 100;
-        return {
-            region: curr.region,
-            currentRevenue: currRev,
-            previousRevenue: prevRev,
-            growthPercentage: growth.toFixed(2),
-        };
-    });
+            .from(invoice)
+            .where(and(periodFilter(invoice.invoiceDate, period), filters))
+            .groupBy(key);
+
+    // Sort keys are the output column names of the query below
+    const sortColumn = sql.raw(options.sortBy ?? "absolute_change");
+    const direction = sql.raw(options.sortOrder === "asc" ? "asc" : "desc");
+
+    const result = await db.execute<{
+        key: string;
+        label: string | null;
+        current_value: string;
+        previous_value: string;
+        absolute_change: string;
+        percentage_change: string | null;
+        status: "new" | "lost" | "retained";
+    }>(sql`
+        with curr as (${aggregate(current)}),
+            prev as (${aggregate(previous)})
+        select
+            coalesce(curr.key, prev.key) as key,
+            coalesce(curr.label, prev.label) as label,
+            coalesce(curr.value, 0) as current_value,
+            coalesce(prev.value, 0) as previous_value,
+            coalesce(curr.value, 0) - coalesce(prev.value, 0) as absolute_change,
+            case
+                when coalesce(prev.value, 0) = 0 then null
+                else round(
+                    (coalesce(curr.value, 0) - prev.value)::numeric / prev.value * 100,
+                    2
+                )
+            end as percentage_change,
+            case
+                when prev.key is null then 'new'
+                when curr.key is null then 'lost'
+                else 'retained'
+            end as status
+        from curr
+        full outer join prev on curr.key = prev.key
+        order by ${sortColumn} ${direction} nulls last
+    `);
+
+    const rows = result.rows.map((row) => ({
+        key: row.key,
+        label: row.label,
+        currentValue: Number(row.current_value),
+        previousValue: Number(row.previous_value),
+        absoluteChange: Number(row.absolute_change),
+        percentageChange: row.percentage_change === null
+            ? null
+            : Number(row.percentage_change),
+        status: row.status,
+    }));
+
+    // Totals come from their own query: one billing document can span several
+    // designs, end uses or cities, so summing the per-group invoice counts
+    // would count it more than once
+    const total = async (period: ResolvedPeriod) => {
+        const [row] = await db.select({ value: sql<number>`${metric}` })
+            .from(invoice)
+            .where(and(periodFilter(invoice.invoiceDate, period), filters));
+        return Number(row?.value ?? 0);
+    };
+    const [currentTotal, previousTotal] = await Promise.all([
+        total(current),
+        total(previous),
+    ]);
+    const members = (wanted: "new" | "lost") =>
+        rows.filter((row) => row.status === wanted);
+
+    return {
+        metric: options.metric,
+        dimension: options.dimension,
+        currentPeriod: current,
+        previousPeriod: previous,
+        totals: {
+            currentValue: currentTotal,
+            previousValue: previousTotal,
+            absoluteChange: currentTotal - previousTotal,
+            percentageChange: previousTotal === 0
+                ? null
+                : parseFloat(
+                    (((currentTotal - previousTotal) / previousTotal) * 100)
+                        .toFixed(2),
+                ),
+            newMembers: members("new").length,
+            lostMembers: members("lost").length,
+        },
+        data: rows.slice(0, limit),
+        newMembers: members("new").slice(0, limit),
+        lostMembers: members("lost").slice(0, limit),
+    };
+}
 
-    return growthData.sort((a, b) =>
-        parseFloat(b.growthPercentage) - parseFloat(a.growthPercentage)
+/**
+ * Compare a metric per dimension member between two arbitrary periods.
+ * The previous period defaults to the same period one year earlier.
+ */
+export async function comparePeriods(params: ComparisonOptions & {
+    currentPeriod: PeriodInput;
+    previousPeriod?: PeriodInput | null;
+}) {
+    const { currentPeriod, previousPeriod, ...options } = params;
+
+    return runComparison(
+        resolvePeriod(currentPeriod),
+        previousPeriod
+            ? resolvePeriod(previousPeriod)
+            : getPriorYearPeriod(currentPeriod),
+        options,
     );
 }
 
-// 3. Customer Growth
-export async function getCustomerGrowth(params: { limit?: number }) {
-    const today = new Date();
-    const oneYearAgo = new Date(today);
-    oneYearAgo.setFullYear(today.getFullYear() - 1);
-    const twoYearsAgo = new Date(today);
-    twoYearsAgo.setFullYear(today.getFullYear() - 2);
+// The growth tools keep their original row shapes on top of runComparison.
+// Like before, they list members with sales in the current period, and a
+// member without previous sales counts as 100% growth.
+function growthRows(result: Awaited<ReturnType<typeof runComparison>>) {
+    return result.data
+        .filter((row) => row.status !== "lost")
+        .map((row) => ({
+            ...row,
+            growthPercentage: row.percentageChange ??
+                (row.currentValue > 0 ? 100 : 0),
+        }));
+}
 
-    const currentPeriod = await db
-        .select({
-            customerCode: invoice.billToPartyCode,
-            customerName: invoice.billToParty,
-            revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
-        })
-        .from(invoice)
-        .where(and(
-            gte(invoice.invoiceDate, oneYearAgo.toISOString().slice(0, 10)),
-            lte(invoice.invoiceDate, today.toISOString().slice(0, 10)),
-        ))
-        .groupBy(invoice.billToPartyCode, invoice.billToParty);
+// 2. Region Growth (Year over Year)
+export async function getRegionGrowth(params: {
+    period?: PeriodInput | null;
+}) {
+    const { current, previous } = getGrowthWindows(params.period);
+    const result = await runComparison(current, previous, {
+        metric: "net_revenue",
+        dimension: "region",
+        limit: 200,
+    });
 
-    const previousPeriod = await db
-        .select({
-            customerCode: invoice.billToPartyCode,
-            revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
-        })
-        .from(invoice)
-        .where(and(
-            gte(invoice.invoiceDate, twoYearsAgo.toISOString().slice(0, 10)),
-            lte(invoice.invoiceDate, oneYearAgo.toISOString().slice(0, 10)),
-        ))
-        .groupBy(invoice.billToPartyCode);
+    return {
+        currentPeriod: current,
+        previousPeriod: previous,
+        data: growthRows(result)
+            .sort((a, b) => b.growthPercentage - a.growthPercentage)
+            .map((row) => ({
+                region: row.key,
+                currentRevenue: row.currentValue,
+                previousRevenue: row.previousValue,
+                growthPercentage: row.growthPercentage.toFixed(2),
+            })),
+    };
+}
 
-    const growthData = currentPeriod.map((curr) => {
-        const prev = previousPeriod.find((p) =>
-            p.customerCode === curr.customerCode
-        );
-        const prevRev = prev ? Number(prev.revenue) : 0;
-        const currRev = Number(curr.revenue);
-        const growth = prevRev === 0
-            ? (currRev > 0 ? 100 : 0)
-            : ((currRev - prevRev) / prevRev) * 100;
-        return {
-            customer: curr.customerName,
-            currentRevenue: currRev,
-            previousRevenue: prevRev,
-            growthPercentage: parseFloat(growth.toFixed(2)),
-            absoluteGrowth: currRev - prevRev,
-        };
+// 3. Customer Growth
+export async function getCustomerGrowth(params: {
+    limit?: number;
+    period?: PeriodInput | null;
+}) {
+    const { current, previous } = getGrowthWindows(params.period);
+    const result = await runComparison(current, previous, {
+        metric: "net_revenue",
+        dimension: "customer",
+        limit: 200,
     });
 
-    return growthData.sort((a, b) => b.absoluteGrowth - a.absoluteGrowth).slice(
-        0,
-        params.limit || 20,
-    );
+    return {
+        currentPeriod: current,
+        previousPeriod: previous,
+        data: growthRows(result)
+            .slice(0, params.limit || 20)
+            .map((row) => ({
+                customer: row.label,
+                currentRevenue: row.currentValue,
+                previousRevenue: row.previousValue,
+                growthPercentage: row.growthPercentage,
+                absoluteGrowth: row.absoluteChange,
+            })),
+    };
 }
 
 // 4. City Analysis (Top customers, products, avg selling rate)
@@ -164,11 +354,15 @@ export async function getCityAnalysis(
             | "top_products"
             | "avg_selling_rate"
             | "top_shades";
+        period?: PeriodInput | null;
     },
 ) {
-    const cityFilter = eq(
-        sql`lower(${invoice.billToPartyCity})`,
-        params.city.toLowerCase(),
+    const periodCondition = params.period
+        ? periodFilter(invoice.invoiceDate, resolvePeriod(params.period))
+        : undefined;
+    const cityFilter = and(
+        eq(sql`lower(${invoice.billToPartyCity})`, params.city.toLowerCase()),
+        periodCondition,
     );
 
     if (params.type === "top_customers") {
@@ -214,6 +408,7 @@ export async function getCityAnalysis(
             avgRate: sql<number>`avg(${invoice.basicPrice})`,
         })
             .from(invoice)
+            .where(periodCondition)
             .groupBy(invoice.billToPartyCity)
             .orderBy(desc(sql`avg(${invoice.basicPrice})`)); // Returns for all cities if city param is ignored, but here we might just want for specific city if passed
         // Actually the prompt asked "List down average selling rate by cities", so we might want to ignore the city filter if looking for all.
@@ -221,10 +416,16 @@ export async function getCityAnalysis(
 }
 
 // 5. End Use Share
-export async function getEndUseShare() {
+export async function getEndUseShare(params: {
+    period?: PeriodInput | null;
+}) {
+    const periodCondition = params.period
+        ? periodFilter(invoice.invoiceDate, resolvePeriod(params.period))
+        : undefined;
+
     const total = await db.select({
         total: sql<number>`sum(${invoice.netAmountInr})`,
-    }).from(invoice);
+    }).from(invoice).where(periodCondition);
     const totalRevenue = Number(total[0]?.total || 1);
 
     const rows = await db.select({
@@ -232,6 +433,7 @@ export async function getEndUseShare() {
         revenue: sql<number>`sum(${invoice.netAmountInr})`,
     })
         .from(invoice)
+        .where(periodCondition)
         .groupBy(invoice.endUse)
         .orderBy(desc(sql`sum(${invoice.netAmountInr})`));
 
@@ -242,55 +444,61 @@ export async function getEndUseShare() {
 }
 
 // 6. Agent Growth
-export async function getAgentGrowth() {
-    const today = new Date();
-    const oneYearAgo = new Date(today);
-    oneYearAgo.setFullYear(today.getFullYear() - 1);
-    const twoYearsAgo = new Date(today);
-    twoYearsAgo.setFullYear(today.getFullYear() - 2);
-
-    const currentPeriod = await db
-        .select({
-            agentCode: invoice.agentCode,
-            agentName: invoice.agentName,
-            revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
-        })
-        .from(invoice)
-        .where(and(
-            gte(invoice.invoiceDate, oneYearAgo.toISOString().slice(0, 10)),
-            lte(invoice.invoiceDate, today.toISOString().slice(0, 10)),
-        ))
-        .groupBy(invoice.agentCode, invoice.agentName);
+export async function getAgentGrowth(params: {
+    period?: PeriodInput | null;
+}) {
+    const { current, previous } = getGrowthWindows(params.period);
+    const result = await runComparison(current, previous, {
+        metric: "net_revenue",
+        dimension: "agent",
+        limit: 200,
+    });
 
-    const previousPeriod = await db
-        .select({
-            agentCode: invoice.agentCode,
-            revenue: sql<number>`coalesce(sum(${invoice.netAmountInr}), 0)`,
-        })
-        .from(invoice)
-        .where(and(
-            gte(invoice.invoiceDate, twoYearsAgo.toISOString().slice(0, 10)),
-            lte(invoice.invoiceDate, oneYearAgo.toISOString().slice(0, 10)),
-        ))
-        .groupBy(invoice.agentCode);
+    return {
+        currentPeriod: current,
+        previousPeriod: previous,
+        data: growthRows(result).map((row) => ({
+            agent: row.label,
+            growth: row.absoluteChange,
+        })),
+    };
+}
 
-    const growthData = currentPeriod.map((curr) => {
-        const prev = previousPeriod.find((p) => p.agentCode === curr.agentCode);
-        const prevRev = prev ? Number(prev.revenue) : 0;
-        const currRev = Number(curr.revenue);
-        return {
-            agent: curr.agentName,
-            growth: currRev - prevRev,
-        };
+// 6b. Broker Growth
+export async function getBrokerGrowth(params: {
+    period?: PeriodInput | null;
+}) {
+    const { current, previous } = getGrowthWindows(params.period);
+    const result = await runComparison(current, previous, {
+        metric: "net_revenue",
+        dimension: "broker",
+        limit: 200,
     });
 
-    return growthData.sort((a, b) => b.growth - a.growth);
+    return {
+        currentPeriod: current,
+        previousPeriod: previous,
+        data: growthRows(result).map((row) => ({
+            broker: row.label,
+            brokerCode: row.key,
+            currentRevenue: row.currentValue,
+            previousRevenue: row.previousValue,
+            growthPercentage: row.growthPercentage,
+            absoluteGrowth: row.absoluteChange,
+        })),
+    };
 }
 
 // 7. Inactive Customers (Retention)
-export async function getInactiveCustomers(params: { monthsInactive: number }) {
+export async function getInactiveCustomers(params: {
+    monthsInactive: number;
+    agentCode?: string; // Restrict to customers billed through one agent
+}) {
     const cutoffDate = new Date();
     cutoffDate.setMonth(cutoffDate.getMonth() - params.monthsInactive);
+    const agentFilter = params.agentCode
+        ? eq(invoice.agentCode, params.agentCode)
+        : undefined;
 
     // Find customers who ordered before cutoff but NOT after cutoff
     // This is a "set difference" problem.
@@ -300,7 +508,10 @@ export async function getInactiveCustomers(params: { monthsInactive: number }) {
         code: invoice.billToPartyCode,
     })
         .from(invoice)
-        .where(gte(invoice.invoiceDate, cutoffDate.toISOString().slice(0, 10)));
+        .where(and(
+            gte(invoice.invoiceDate, cutoffDate.toISOString().slice(0, 10)),
+            agentFilter,
+        ));
 
     const activeCodes = activeRecent.map((r) => r.code).filter(
         Boolean,
@@ -320,6 +531,7 @@ export async function getInactiveCustomers(params: { monthsInactive: number }) {
         .where(and(
             gte(invoice.invoiceDate, priorDate.toISOString().slice(0, 10)),
             lte(invoice.invoiceDate, cutoffDate.toISOString().slice(0, 10)),
+            agentFilter,
         ))
         .groupBy(invoice.billToPartyCode, invoice.billToParty);
 
@@ -362,6 +574,10 @@ export async function getStockSalesAnalysis(
         )
         .groupBy(invoice.material);
 
+    const reorderPolicies = params.type === "low_stock"
+        ? await getReorderPolicies()
+        : null;
+
     const results = [];
 
     for (const sale of salesVelocity) {
@@ -396,13 +612,42 @@ export async function getStockSalesAnalysis(
                 });
             }
         } else if (params.type === "low_stock") {
-            // Arbitrary threshold or based on reorder level if exists
-            if (currentStock > 0 && currentStock < 100) { // Example threshold
-                results.push({ material: sale.material, stock: currentStock });
+            // In stock but at or below the material's reorder point
+            const policy = reorderPolicies?.get(sale.material);
+            if (
+                policy && policy.reorderPoint > 0 && currentStock > 0 &&
+                currentStock <= policy.reorderPoint
+            ) {
+                results.push({
+                    material: sale.material,
+                    stock: currentStock,
+                    reorderPoint: policy.reorderPoint,
+                    safetyStock: policy.safetyStock,
+                    leadTimeDays: policy.leadTimeDays,
+                    recommendedOrderQuantity: recommendedOrderQuantity(
+                        policy,
+                        currentStock,
+                    ),
+                });
             }
         }
     }
 
+    // Project when each at-risk item runs out from its demand forecast
+    if (params.type === "likely_stock_out" && results.length > 0) {
+        const forecasts = await forecastDemand({
+            materials: results.map((r) => r.material),
+        });
+        for (const result of results) {
+            const forecast = forecasts.get(result.material);
+            Object.assign(result, {
+                projectedStockOutDate: forecast
+                    ? projectStockOutDate(result.stock, forecast.points)
+                    : null,
+            });
+        }
+    }
+
     // Sort by relevance
     if (params.type === "high_sales_zero_stock") {
         results.sort((a, b) =>
@@ -484,8 +729,27 @@ export async function getStockTurnRatio() {
 }
 
 // 11. Top Selling Products (Global)
-export async function getTopProducts(params: { limit?: number }) {
+export async function getTopProducts(params: {
+    limit?: number;
+    fromDate?: string; // YYYY-MM-DD
+    toDate?: string; // YYYY-MM-DD
+    period?: PeriodInput | null;
+    regionZone?: string;
+}) {
     const limit = params.limit || 10;
+    const { fromDate, toDate } = resolveDateRange(params);
+
+    const conditions = [];
+    if (fromDate) {
+        conditions.push(gte(invoice.invoiceDate, fromDate));
+    }
+    if (toDate) {
+        conditions.push(lte(invoice.invoiceDate, toDate));
+    }
+    if (params.regionZone) {
+        conditions.push(eq(invoice.regionZone, params.regionZone));
+    }
+
     return await db.select({
         material: invoice.material,
         design: invoice.ainocularDesign,
@@ -494,6 +758,7 @@ export async function getTopProducts(params: { limit?: number }) {
         totalQuantity: sql<number>`sum(${invoice.billedQuantity})`,
     })
         .from(invoice)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
         .groupBy(
             invoice.material,
             invoice.ainocularDesign,
@@ -582,18 +847,83 @@ export async function getReplenishmentReport(params: {
     const futureDate = new Date(today);
     futureDate.setDate(futureDate.getDate() + daysAhead);
 
-    const rows = await db.select()
-        .from(stock)
-        .where(and(
-            lte(stock.replenishmentDate, futureDate.toISOString().slice(0, 10)),
-            gte(stock.replenishmentDate, today.toISOString().slice(0, 10)),
-        ))
-        .orderBy(stock.replenishmentDate);
+    const futureIso = futureDate.toISOString().slice(0, 10);
+
+    const [rows, stockItems, forecasts, classes] = await Promise.all([
+        db.select()
+            .from(stock)
+            .where(and(
+                lte(stock.replenishmentDate, futureIso),
+                gte(stock.replenishmentDate, today.toISOString().slice(0, 10)),
+            ))
+            .orderBy(stock.replenishmentDate),
+        db.select({
+            material: stock.material,
+            description: stock.description2ForTheMaterialGroup,
+            stockInMeters: stock.stockInMeters,
+            replenishmentDate: stock.replenishmentDate,
+            leadTimeDays: stock.leadTimeDays,
+        }).from(stock),
+        forecastDemand({ horizonMonths: MAX_HORIZON_MONTHS, today }),
+        getClassificationMap(),
+    ]);
+
+    const projectStockOut = (material: string, stockInMeters: unknown) => {
+        const forecast = forecasts.get(material);
+        if (!forecast) return { forecastMonthlyDemand: 0, date: null };
+        return {
+            forecastMonthlyDemand: forecast.points[0].forecast,
+            date: projectStockOutDate(
+                Number(stockInMeters || 0),
+                forecast.points,
+                today,
+            ),
+        };
+    };
+
+    const items = rows.map((row) => {
+        const projection = projectStockOut(row.material, row.stockInMeters);
+        return {
+            ...row,
+            abcXyzClass: classes.get(row.material) ?? null,
+            forecastMonthlyDemand: projection.forecastMonthlyDemand,
+            projectedStockOutDate: projection.date,
+            stockOutBeforeReplenishment: projection.date !== null &&
+                row.replenishmentDate !== null &&
+                projection.date < row.replenishmentDate,
+        };
+    });
+
+    // Items still in stock whose forecast demand exhausts them in the window,
+    // whether or not a replenishment is scheduled
+    const projectedStockOuts = stockItems
+        .filter((item) => Number(item.stockInMeters || 0) > 0)
+        .map((item) => {
+            const projection = projectStockOut(
+                item.material,
+                item.stockInMeters,
+            );
+            return {
+                ...item,
+                abcXyzClass: classes.get(item.material) ?? null,
+                forecastMonthlyDemand: projection.forecastMonthlyDemand,
+                projectedStockOutDate: projection.date,
+            };
+        })
+        .filter((item) =>
+            item.projectedStockOutDate !== null &&
+            item.projectedStockOutDate <= futureIso
+        )
+        .sort((a, b) =>
+            a.projectedStockOutDate!.localeCompare(b.projectedStockOutDate!)
+        );
 
     return {
         daysAhead,
-        itemsNeedingReplenishment: rows.length,
-        items: rows,
+        itemsNeedingReplenishment: items.length,
+        items,
+        itemsProjectedToStockOut: projectedStockOuts.length,
+        projectedStockOuts: projectedStockOuts.slice(0, 50),
     };
 }
 
@@ -693,7 +1023,12 @@ export async function searchStock(params: {
         .orderBy(desc(stock.stockInMeters))
         .limit(params.limit || 50);
 
-    return rows;
+    const classes = await getClassificationMap(rows.map((r) => r.material));
+
+    return rows.map((row) => ({
+        ...row,
+        abcXyzClass: classes.get(row.material) ?? null,
+    }));
 }
 
 // 17. List Stock Distinct Values (for filter discovery)
@@ -861,3 +1196,147 @@ export async function getExcessStockReport(params: {
         excessItems,
     };
 }
+
+// 21. Substitute Materials (in-stock alternatives ranked by similarity)
+type SubstituteAttribute = {
+    key:
+        | "fabricType"
+        | "endUse"
+        | "colourFamily"
+        | "colourMaster"
+        | "patternName"
+        | "composition"
+        | "gsm"
+        | "width";
+    label: string;
+    weight: number;
+    // Numeric attributes match within a relative tolerance; text must be equal
+    tolerance?: number;
+};
+
+const SUBSTITUTE_ATTRIBUTES: SubstituteAttribute[] = [
+    { key: "fabricType", label: "fabric type", weight: 3 },
+    { key: "endUse", label: "end use", weight: 2 },
+    { key: "colourFamily", label: "colour family", weight: 2 },
+    { key: "colourMaster", label: "colour", weight: 1 },
+    { key: "patternName", label: "pattern", weight: 2 },
+    { key: "composition", label: "composition", weight: 2 },
+    { key: "gsm", label: "GSM", weight: 2, tolerance: 0.1 },
+    { key: "width", label: "width", weight: 1, tolerance: 0.05 },
+];
+
+function normalizeAttribute(value: string | null) {
+    return value?.trim().toLowerCase() || null;
+}
+
+export async function findSubstituteMaterials(params: {
+    material: string;
+    minStock?: number;
+    minSimilarity?: number; // Percent, 0-100
+    limit?: number;
+}) {
+    const [source] = await db.select()
+        .from(stock)
+        .where(eq(stock.material, params.material));
+
+    if (!source) {
+        return {
+            success: false,
+            error: `No stock record found for material: ${params.material}`,
+            data: null,
+        };
+    }
+
+    // Only score attributes the source actually has, so a sparse record is
+    // not penalised for blanks
+    const attributes = SUBSTITUTE_ATTRIBUTES.filter((attribute) =>
+        source[attribute.key] !== null && source[attribute.key] !== ""
+    );
+    const totalWeight = attributes.reduce((sum, a) => sum + a.weight, 0);
+
+    if (totalWeight === 0) {
+        return {
+            success: false,
+            error:
+                `Material ${params.material} has no attributes to compare against.`,
+            data: null,
+        };
+    }
+
+    const candidates = await db.select()
+        .from(stock)
+        .where(and(
+            sql`${stock.material} <> ${source.material}`,
+            sql`${stock.stockInMeters} > ${params.minStock ?? 0}`,
+        ));
+
+    const minSimilarity = params.minSimilarity ?? 30;
+
+    const substitutes = candidates
+        .map((candidate) => {
+            const matches: string[] = [];
+            const differences: string[] = [];
+            let score = 0;
+
+            for (const attribute of attributes) {
+                const expected = source[attribute.key];
+                const actual = candidate[attribute.key];
+
+                if (attribute.tolerance !== undefined) {
+                    const a = Number(expected);
+                    const b = Number(actual);
+                    if (actual !== null && a > 0 && b > 0) {
+                        const gap = Math.abs(a - b) / a;
+                        if (gap <= attribute.tolerance) {
+                            score += attribute.weight;
+                            matches.push(
+                                gap === 0
+                                    ? `same ${attribute.label} (${b})`
+                                    : `${attribute.label} ${b} vs ${a} (${
+                                        Math.round(gap * 100)
+                                    }% apart)`,
+                            );
+                            continue;
+                        }
+                    }
+                } else if (
+                    normalizeAttribute(actual) ===
+                        normalizeAttribute(expected)
+                ) {
+                    score += attribute.weight;
+                    matches.push(`same ${attribute.label} (${actual})`);
+                    continue;
+                }
+
+                differences.push(
+                    `${attribute.label} ${actual ?? "unknown"}`,
+                );
+            }
+
+            return {
+                material: candidate.material,
+                description: candidate.description2ForTheMaterialGroup,
+                similarity: Math.round((score / totalWeight) * 100),
+                stockInMeters: Number(candidate.stockInMeters || 0),
+                basicPrice: candidate.basicPrice,
+                matches: matches.join("; "),
+                differences: differences.join("; "),
+            };
+        })
+        .filter((s) => s.similarity >= minSimilarity)
+        .sort((a, b) =>
+            b.similarity - a.similarity || b.stockInMeters - a.stockInMeters
+        )
+        .slice(0, params.limit || 10);
+
+    return {
+        success: true,
+        data: {
+            material: source.material,
+            description: source.description2ForTheMaterialGroup,
+            stockInMeters: Number(source.stockInMeters || 0),
+            comparedAttributes: attributes.map((a) => a.label).join(", "),
+            substitutes,
+        },
+    };
+}
@@ -0,0 +1,32 @@
+import { auth } from "./auth";
+import { type UserRole, toUserRole } from "./roles";
+
+export type SessionUser = {
+    id: string;
+    name: string;
+    email: string;
+    role: UserRole;
+    agentCode: string | null;
+    brokerCode: string | null;
+};
+
+/**
+ * Resolve the signed-in user (with a normalized role) from request headers.
+ * Returns null when there is no valid session.
+ */
+export async function getSessionUser(
+    requestHeaders: Headers,
+): Promise<SessionUser | null> {
+    const session = await auth.api.getSession({ headers: requestHeaders });
+
+    if (!session || !session.user) return null;
+
+    return {
+        id: session.user.id,
+        name: session.user.name,
+        email: session.user.email,
+        role: toUserRole(session.user.role),
+        agentCode: session.user.agentCode ?? null,
+        brokerCode: session.user.brokerCode ?? null,
+    };
+}
@@ -0,0 +1,283 @@
+import { and, gte, lte, sql } from "drizzle-orm";
+import * as XLSX from "xlsx";
+
+import { db } from "@/drizzle/db";
+import { invoice } from "@/drizzle/schema/invoice-schema";
+import { type PeriodInput, resolveDateRange, resolvePeriod } from "./periods";
+
+// Monthly GST and TCS summaries laid out the way accountants prepare GSTR-1:
+// a monthly total, values by place of supply, by billing type, and a
+// documents-issued summary per document type. The invoice data carries no
+// ship-to state, so place of supply is the ship-to city.
+
+// =========
+// Configuration
+// =========
+
+const MAX_ROWS_IN_RESPONSE = 100;
+
+type TaxRange = { fromDate: string; toDate: string };
+
+type TaxTotals = {
+    documents: number;
+    taxableAmount: number;
+    gstAmount: number;
+    tcsAmount: number;
+    invoiceValue: number;
+};
+
+export type TaxSummary = TaxRange & {
+    monthly: ({ month: string } & TaxTotals)[];
+    placeOfSupply: ({ month: string; shipToCity: string | null } & TaxTotals)[];
+    byBillingType: ({
+        month: string;
+        billingType: string | null;
+        description: string | null;
+    } & TaxTotals)[];
+    documents: {
+        month: string;
+        documentType: string | null;
+        documents: number;
+        firstDocument: string | null;
+        lastDocument: string | null;
+        invoiceValue: number;
+    }[];
+};
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+const month = sql<
+    string
+>`to_char(date_trunc('month', ${invoice.invoiceDate}), 'YYYY-MM')`;
+
+// Line items roll up to one document per billing document
+const totals = {
+    documents: sql<number>`count(distinct ${invoice.billingDocument})::int`,
+    taxableAmount: sql<number>`coalesce(sum(${invoice.taxableAmount}), 0)`,
+    gstAmount: sql<number>`coalesce(sum(${invoice.totalGstAmount}), 0)`,
+    tcsAmount: sql<number>`coalesce(sum(${invoice.tcsAmount}), 0)`,
+    invoiceValue: sql<number>`coalesce(sum(${invoice.grossAmount}), 0)`,
+};
+
+function toTotals(row: TaxTotals): TaxTotals {
+    return {
+        documents: row.documents,
+        taxableAmount: round(Number(row.taxableAmount)),
+        gstAmount: round(Number(row.gstAmount)),
+        tcsAmount: round(Number(row.tcsAmount)),
+        invoiceValue: round(Number(row.invoiceValue)),
+    };
+}
+
+/**
+ * Resolve the reporting range, defaulting to the current fiscal year.
+ */
+export function resolveTaxRange(params: {
+    fromDate?: string | null;
+    toDate?: string | null;
+    period?: PeriodInput | null;
+}): TaxRange {
+    const range = resolveDateRange(params);
+    const currentYear = resolvePeriod({ type: "fiscal_year" });
+
+    return {
+        fromDate: range.fromDate ?? currentYear.fromDate,
+        toDate: range.toDate ?? currentYear.toDate,
+    };
+}
+
+export function getTaxSummaryExportUrl(range: TaxRange) {
+    const query = new URLSearchParams(range);
+    return `/api/tax-summary/export?${query.toString()}`;
+}
+
+// =========
+// Summary
+// =========
+
+export async function loadTaxSummary(range: TaxRange): Promise<TaxSummary> {
+    const where = and(
+        gte(invoice.invoiceDate, range.fromDate),
+        lte(invoice.invoiceDate, range.toDate),
+    );
+
+    const [monthly, placeOfSupply, byBillingType, documents] = await Promise
+        .all([
+            db.select({ month, ...totals })
+                .from(invoice)
+                .where(where)
+                .groupBy(month)
+                .orderBy(month),
+            db.select({ month, shipToCity: invoice.shipToPartyCity, ...totals })
+                .from(invoice)
+                .where(where)
+                .groupBy(month, invoice.shipToPartyCity)
+                .orderBy(month, invoice.shipToPartyCity),
+            db.select({
+                month,
+                billingType: invoice.billingType,
+                description: sql<string | null>`max(${invoice.billDocDesc})`,
+                ...totals,
+            })
+                .from(invoice)
+                .where(where)
+                .groupBy(month, invoice.billingType)
+                .orderBy(month, invoice.billingType),
+            db.select({
+                month,
+                documentType: invoice.documentType,
+                documents: totals.documents,
+                firstDocument: sql<
+                    string | null
+                >`min(${invoice.billingDocument})`,
+                lastDocument: sql<
+                    string | null
+                >`max(${invoice.billingDocument})`,
+                invoiceValue: totals.invoiceValue,
+            })
+                .from(invoice)
+                .where(where)
+                .groupBy(month, invoice.documentType)
+                .orderBy(month, invoice.documentType),
+        ]);
+
+    return {
+        ...range,
+        monthly: monthly.map((row) => ({ month: row.month, ...toTotals(row) })),
+        placeOfSupply: placeOfSupply.map((row) => ({
+            month: row.month,
+            shipToCity: row.shipToCity,
+            ...toTotals(row),
+        })),
+        byBillingType: byBillingType.map((row) => ({
+            month: row.month,
+            billingType: row.billingType,
+            description: row.description,
+            ...toTotals(row),
+        })),
+        documents: documents.map((row) => ({
+            ...row,
+            invoiceValue: round(Number(row.invoiceValue)),
+        })),
+    };
+}
+
+/**
+ * Tax summary for the chat. Long sections are truncated; the export link
+ * downloads the full summary as a workbook.
+ */
+export async function getTaxSummary(params: {
+    fromDate?: string | null;
+    toDate?: string | null;
+    period?: PeriodInput | null;
+}) {
+    const range = resolveTaxRange(params);
+    const summary = await loadTaxSummary(range);
+
+    const sum = (key: keyof TaxTotals) =>
+        round(summary.monthly.reduce((total, row) => total + row[key], 0));
+
+    return {
+        fromDate: range.fromDate,
+        toDate: range.toDate,
+        totalTaxableAmount: sum("taxableAmount"),
+        totalGstAmount: sum("gstAmount"),
+        totalTcsAmount: sum("tcsAmount"),
+        exportUrl: getTaxSummaryExportUrl(range),
+        monthly: summary.monthly,
+        placeOfSupply: summary.placeOfSupply.slice(0, MAX_ROWS_IN_RESPONSE),
+        byBillingType: summary.byBillingType.slice(0, MAX_ROWS_IN_RESPONSE),
+        documents: summary.documents.slice(0, MAX_ROWS_IN_RESPONSE),
+    };
+}
+
+// =========
+// Export
+// =========
+
+const TOTAL_HEADERS = [
+    "Documents",
+    "Taxable value",
+    "GST",
+    "TCS",
+    "Invoice value",
+];
+
+function totalCells(row: TaxTotals) {
+    return [
+        row.documents,
+        row.taxableAmount,
+        row.gstAmount,
+        row.tcsAmount,
+        row.invoiceValue,
+    ];
+}
+
+export function buildTaxSummaryWorkbook(summary: TaxSummary): Buffer {
+    const workbook = XLSX.utils.book_new();
+
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+            ["Tax summary", `${summary.fromDate} to ${summary.toDate}`],
+            [],
+            ["Month", ...TOTAL_HEADERS],
+            ...summary.monthly.map((row) => [row.month, ...totalCells(row)]),
+        ]),
+        "Summary",
+    );
+
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+            ["Month", "Place of supply (ship-to city)", ...TOTAL_HEADERS],
+            ...summary.placeOfSupply.map((row) => [
+                row.month,
+                row.shipToCity,
+                ...totalCells(row),
+            ]),
+        ]),
+        "Place of supply",
+    );
+
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+            ["Month", "Billing type", "Description", ...TOTAL_HEADERS],
+            ...summary.byBillingType.map((row) => [
+                row.month,
+                row.billingType,
+                row.description,
+                ...totalCells(row),
+            ]),
+        ]),
+        "Billing type",
+    );
+
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+            [
+                "Month",
+                "Document type",
+                "Documents",
+                "From document",
+                "To document",
+                "Invoice value",
+            ],
+            ...summary.documents.map((row) => [
+                row.month,
+                row.documentType,
+                row.documents,
+                row.firstDocument,
+                row.lastDocument,
+                row.invoiceValue,
+            ]),
+        ]),
+        "Documents issued",
+    );
+
+    return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
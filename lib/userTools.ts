@@ -1,9 +1,11 @@
-import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
 import { headers } from "next/headers";
 
 import { db } from "@/drizzle/db";
 import { invoice } from "@/drizzle/schema/invoice-schema";
 import { auth } from "./auth";
+import { getApprovedCustomerCodes } from "./customerLinks";
+import { type PeriodInput, resolveDateRange } from "./periods";
 
 // S3 bucket base URL for invoice PDFs
 const INVOICE_PDF_BUCKET_URL =
@@ -50,7 +52,7 @@ export type AuthenticatedUser = {
     id: string;
     name: string;
     email: string;
-    billToPartyCode: string; // User's name is used as billToPartyCode
+    billToPartyCodes: string[]; // Approved links from user_customer_link
 };
 
 export type AuthResult =
@@ -59,7 +61,8 @@ export type AuthResult =
 
 /**
  * Get the authenticated user from the request headers.
- * The user's name is used as the billToPartyCode to scope queries.
+ * Queries are scoped to the customer codes an admin has approved for the
+ * user; a user with no approved link cannot see any invoices.
  */
 export async function getAuthenticatedUser(): Promise<AuthResult> {
     try {
@@ -77,6 +80,15 @@ export async function getAuthenticatedUser(): Promise<AuthResult> {
         }
 
         const user = session.user;
+        const billToPartyCodes = await getApprovedCustomerCodes(user.id);
+
+        if (billToPartyCodes.length === 0) {
+            return {
+                authenticated: false,
+                error:
+                    "Your account is not linked to a customer account yet. Please request a link with your customer code and wait for an admin to approve it.",
+            };
+        }
 
         return {
             authenticated: true,
@@ -84,7 +96,7 @@ export async function getAuthenticatedUser(): Promise<AuthResult> {
                 id: user.id,
                 name: user.name,
                 email: user.email,
-                billToPartyCode: user.name, // User's name maps to billToPartyCode
+                billToPartyCodes,
             },
         };
     } catch {
@@ -96,17 +108,18 @@ export async function getAuthenticatedUser(): Promise<AuthResult> {
 }
 
 // =========
-// User Tools - Scoped to authenticated user's billToPartyCode
+// User Tools - Scoped to authenticated user's linked billToPartyCodes
 // =========
 
 /**
  * Get the user's invoice history with optional date filters.
- * Automatically scoped to the authenticated user's billToPartyCode.
+ * Automatically scoped to the authenticated user's linked billToPartyCodes.
  */
 export async function getMyInvoiceHistory(
     params: {
         fromDate?: DateInput | null;
         toDate?: DateInput | null;
+        period?: PeriodInput | null;
     } & Pagination,
 ) {
     const authResult = await getAuthenticatedUser();
@@ -121,11 +134,10 @@ export async function getMyInvoiceHistory(
     const { limit, offset } = getSafePagination(params);
     const filters = [];
 
-    // Always filter by the authenticated user's billToPartyCode
-    filters.push(eq(invoice.billToPartyCode, user.billToPartyCode));
+    // Always filter by the authenticated user's linked billToPartyCodes
+    filters.push(inArray(invoice.billToPartyCode, user.billToPartyCodes));
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -149,7 +161,7 @@ export async function getMyInvoiceHistory(
         success: true,
         user: {
             name: user.name,
-            billToPartyCode: user.name,
+            billToPartyCodes: user.billToPartyCodes,
         },
         invoiceCount: rows.length,
         data: rows,
@@ -158,11 +170,12 @@ export async function getMyInvoiceHistory(
 
 /**
  * Get the user's invoice summary (totals, counts, etc.).
- * Automatically scoped to the authenticated user's billToPartyCode.
+ * Automatically scoped to the authenticated user's linked billToPartyCodes.
  */
 export async function getMyInvoiceSummary(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
 }) {
     const authResult = await getAuthenticatedUser();
 
@@ -173,11 +186,10 @@ export async function getMyInvoiceSummary(params: {
     const { user } = authResult;
     const filters = [];
 
-    // Always filter by the authenticated user's billToPartyCode
-    filters.push(eq(invoice.billToPartyCode, user.billToPartyCode));
+    // Always filter by the authenticated user's linked billToPartyCodes
+    filters.push(inArray(invoice.billToPartyCode, user.billToPartyCodes));
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -216,12 +228,16 @@ export async function getMyInvoiceSummary(params: {
         success: true,
         user: {
             name: user.name,
-            billToPartyCode: user.billToPartyCode,
+            billToPartyCodes: user.billToPartyCodes,
         },
         data: row,
     };
 }
 
+function getInvoicePdfUrl(billingDocument: string) {
+    return `${INVOICE_PDF_BUCKET_URL}/${billingDocument}.pdf`;
+}
+
 /**
  * Get a specific invoice PDF link for the authenticated user.
  * Verifies the invoice belongs to the user before returning the link.
@@ -246,7 +262,7 @@ export async function getMyInvoicePdf(params: {
         };
     }
 
-    // Verify the invoice exists AND belongs to this user (comparing billToPartyCode)
+    // Verify the invoice exists AND belongs to one of this user's linked customers
     const [invoiceRecord] = await db
         .select({
             billingDocument: invoice.billingDocument,
@@ -258,7 +274,7 @@ export async function getMyInvoicePdf(params: {
         .where(
             and(
                 eq(invoice.billingDocument, billingDocument.trim()),
-                eq(invoice.billToPartyCode, user.billToPartyCode),
+                inArray(invoice.billToPartyCode, user.billToPartyCodes),
             ),
         )
         .limit(1);
@@ -272,7 +288,7 @@ export async function getMyInvoicePdf(params: {
         };
     }
 
-    const pdfUrl = `${INVOICE_PDF_BUCKET_URL}/${billingDocument.trim()}.pdf`;
+    const pdfUrl = getInvoicePdfUrl(billingDocument.trim());
 
     return {
         success: true,
@@ -286,6 +302,50 @@ export async function getMyInvoicePdf(params: {
     };
 }
 
+/**
+ * PDF links for several invoices at once, checked against the user's linked
+ * customers in a single query. Documents that do not belong to the user are
+ * left out of the returned map.
+ */
+export async function getMyInvoicePdfs(params: {
+    billingDocuments: string[];
+}) {
+    const authResult = await getAuthenticatedUser();
+
+    if (!authResult.authenticated) {
+        return { success: false, error: authResult.error, data: null };
+    }
+
+    const { user } = authResult;
+    const billingDocuments = params.billingDocuments
+        .map((doc) => doc.trim())
+        .filter(Boolean);
+
+    if (billingDocuments.length === 0) {
+        return { success: true, data: new Map<string, string>() };
+    }
+
+    const rows = await db
+        .selectDistinct({ billingDocument: invoice.billingDocument })
+        .from(invoice)
+        .where(
+            and(
+                inArray(invoice.billingDocument, billingDocuments),
+                inArray(invoice.billToPartyCode, user.billToPartyCodes),
+            ),
+        );
+
+    return {
+        success: true,
+        data: new Map(
+            rows
+                .map((row) => row.billingDocument)
+                .filter((doc): doc is string => doc !== null)
+                .map((doc) => [doc, getInvoicePdfUrl(doc)]),
+        ),
+    };
+}
+
 /**
  * Get details of a specific invoice for the authenticated user.
  * Verifies the invoice belongs to the user.
@@ -313,7 +373,7 @@ export async function getMyInvoiceDetails(params: {
 
     const filters = [
         eq(invoice.billingDocument, billingDocument.trim()),
-        eq(invoice.billToPartyCode, user.billToPartyCode),
+        inArray(invoice.billToPartyCode, user.billToPartyCodes),
     ];
 
     if (item !== undefined) {
@@ -339,7 +399,7 @@ export async function getMyInvoiceDetails(params: {
         success: true,
         user: {
             name: user.name,
-            billToPartyCode: user.billToPartyCode,
+            billToPartyCodes: user.billToPartyCodes,
         },
         data: rows.length === 1 ? rows[0] : rows,
     };
@@ -347,7 +407,7 @@ export async function getMyInvoiceDetails(params: {
 
 /**
  * Get the user's recent invoices (last N invoices).
- * Automatically scoped to the authenticated user's billToPartyCode.
+ * Automatically scoped to the authenticated user's linked billToPartyCodes.
  */
 export async function getMyRecentInvoices(params: {
     limit?: number;
@@ -366,7 +426,7 @@ export async function getMyRecentInvoices(params: {
     const rows = await db
         .select()
         .from(invoice)
-        .where(eq(invoice.billToPartyCode, user.billToPartyCode))
+        .where(inArray(invoice.billToPartyCode, user.billToPartyCodes))
         .orderBy(desc(invoice.invoiceDate))
         .limit(limit);
 
@@ -374,7 +434,7 @@ export async function getMyRecentInvoices(params: {
         success: true,
         user: {
             name: user.name,
-            billToPartyCode: user.billToPartyCode,
+            billToPartyCodes: user.billToPartyCodes,
         },
         invoiceCount: rows.length,
         data: rows,
@@ -388,6 +448,7 @@ export async function getMyRecentInvoices(params: {
 export async function getMyPurchasesByMaterial(params: {
     fromDate?: DateInput | null;
     toDate?: DateInput | null;
+    period?: PeriodInput | null;
     limit?: number;
 }) {
     const authResult = await getAuthenticatedUser();
@@ -402,11 +463,10 @@ export async function getMyPurchasesByMaterial(params: {
         ? Math.min(params.limit, 100)
         : 20;
 
-    // Always filter by the authenticated user's billToPartyCode
-    filters.push(eq(invoice.billToPartyCode, user.billToPartyCode));
+    // Always filter by the authenticated user's linked billToPartyCodes
+    filters.push(inArray(invoice.billToPartyCode, user.billToPartyCodes));
 
-    const fromDate = normalizeDate(params.fromDate ?? undefined);
-    const toDate = normalizeDate(params.toDate ?? undefined);
+    const { fromDate, toDate } = resolveDateRange(params);
 
     if (fromDate) {
         filters.push(gte(invoice.invoiceDate, fromDate));
@@ -447,7 +507,7 @@ export async function getMyPurchasesByMaterial(params: {
         success: true,
         user: {
             name: user.name,
-            billToPartyCode: user.billToPartyCode,
+            billToPartyCodes: user.billToPartyCodes,
         },
         data: rows,
     };
@@ -491,7 +551,7 @@ export async function getMyMonthlyPurchaseTrend(params: {
         .from(invoice)
         .where(
             and(
-                eq(invoice.billToPartyCode, user.billToPartyCode),
+                inArray(invoice.billToPartyCode, user.billToPartyCodes),
                 gte(invoice.invoiceDate, fromDate!),
             ),
         )
@@ -502,7 +562,7 @@ export async function getMyMonthlyPurchaseTrend(params: {
         success: true,
         user: {
             name: user.name,
-            billToPartyCode: user.billToPartyCode,
+            billToPartyCodes: user.billToPartyCodes,
         },
         monthsAnalyzed: monthsBack,
         data: rows,
@@ -522,7 +582,7 @@ export async function getMyProfile() {
 
     const { user } = authResult;
 
-    // Get some stats about the user's invoices (using billToPartyCode)
+    // Get some stats about the user's invoices (across linked billToPartyCodes)
     const [stats] = await db
         .select({
             totalInvoices: sql<number>`count(*)`,
@@ -531,7 +591,7 @@ export async function getMyProfile() {
             lastInvoiceDate: sql<string>`max(${invoice.invoiceDate})`,
         })
         .from(invoice)
-        .where(eq(invoice.billToPartyCode, user.billToPartyCode));
+        .where(inArray(invoice.billToPartyCode, user.billToPartyCodes));
 
     return {
         success: true,
@@ -539,7 +599,7 @@ export async function getMyProfile() {
             id: user.id,
             name: user.name,
             email: user.email,
-            billToPartyCode: user.billToPartyCode,
+            billToPartyCodes: user.billToPartyCodes,
             stats: {
                 totalInvoices: stats.totalInvoices,
                 totalSpent: stats.totalSpent,